@@ -0,0 +1,251 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import { getAddress, isAddress, isHex } from 'viem/utils'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+import type { CommandSpec } from './commands'
+
+export type ArgType =
+    | 'address'
+    | 'address[]'
+    | 'uint'
+    | 'uint[]'
+    | 'bigint'
+    | 'bigint[]'
+    | 'bytes4'
+    | 'bytes32[]'
+    | 'boolean'
+    | 'string'
+    | 'signatures'
+    | 'allocations'
+
+export interface OptionSpec {
+    key: string
+    type: ArgType
+    description: string
+    required?: boolean
+    default?: unknown
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+export type ParsedArgs = Record<string, any>
+
+/**
+ * Returns the CLI flag for an option key, e.g. `nodeIds` -> `--node-ids`
+ *
+ * @param key
+ * @returns
+ */
+export function toFlag(key: string): string {
+    return `--${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`
+}
+
+/**
+ * Returns the `parseArgs` options for a command's flags
+ * Boolean options are bare flags, e.g. `--propose-undelegation`, every other option takes a value
+ *
+ * @param options
+ * @returns
+ */
+export function getFlagOptions(options: OptionSpec[]): Record<string, { type: 'string' | 'boolean' }> {
+    return Object.fromEntries(
+        options.map((option) => [
+            toFlag(option.key).slice(2),
+            { type: option.type === 'boolean' ? 'boolean' : 'string' }
+        ])
+    )
+}
+
+/**
+ * Reads command args from a JSON or YAML input file
+ * Keys in the file use the camelCase option keys, e.g. `nodeIds`
+ *
+ * @param filePath
+ * @returns
+ */
+export async function readInputFile(filePath: string): Promise<ParsedArgs> {
+    const content = await fs.readFile(path.resolve(process.cwd(), filePath), 'utf8')
+    const ext = path.extname(filePath).toLowerCase()
+    const data = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content)
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`Input file ${filePath} must contain an object of command args`)
+    }
+
+    return data
+}
+
+/**
+ * Merges args from the input file (if any) and flags, with flags taking precedence, and validates them
+ *
+ * @param command
+ * @param values
+ * @returns
+ */
+export async function resolveArgs(command: CommandSpec, values: Record<string, unknown>): Promise<ParsedArgs> {
+    const fileArgs = typeof values.input === 'string' ? await readInputFile(values.input) : {}
+    const args: ParsedArgs = {}
+
+    for (const option of command.options) {
+        const raw = values[toFlag(option.key).slice(2)] ?? fileArgs[option.key]
+
+        if (raw === undefined) {
+            if (option.required) throw new Error(`Missing required option ${toFlag(option.key)}`)
+            args[option.key] = option.default
+            continue
+        }
+
+        args[option.key] = parseArg(option, raw)
+    }
+
+    command.validate?.(args)
+
+    return args
+}
+
+/**
+ * Parses and validates a raw arg value (flag string or input file value) against its option type
+ *
+ * @param option
+ * @param raw
+ * @returns
+ */
+export function parseArg(option: OptionSpec, raw: unknown) {
+    const label = toFlag(option.key)
+
+    switch (option.type) {
+        case 'address':
+            return parseAddress(raw, label)
+        case 'address[]':
+            return toList(raw, label).map((value, i) => parseAddress(value, `${label}[${i}]`))
+        case 'uint':
+            return parseUint(raw, label)
+        case 'uint[]':
+            return toList(raw, label).map((value, i) => parseUint(value, `${label}[${i}]`).toString())
+        case 'bigint':
+            return parseBigInt(raw, label)
+        case 'bigint[]':
+            return toList(raw, label).map((value, i) => parseBigInt(value, `${label}[${i}]`))
+        case 'bytes4':
+            return parseHex(raw, label, 4)
+        case 'bytes32[]':
+            return toList(raw, label).map((value, i) => parseHex(value, `${label}[${i}]`, 32))
+        case 'boolean':
+            if (raw === true || raw === 'true') return true
+            if (raw === false || raw === 'false') return false
+            throw new Error(`Invalid value for ${label}: expected true or false`)
+        case 'string':
+            if (typeof raw !== 'string' || raw.length === 0)
+                throw new Error(`Invalid value for ${label}: expected string`)
+            return raw
+        case 'signatures':
+            return toObjectList(raw, label).map((sig, i) => ({
+                signature: parseHex(sig.signature, `${label}[${i}].signature`),
+                expiry: parseBigInt(sig.expiry, `${label}[${i}].expiry`).toString()
+            }))
+        case 'allocations':
+            return toObjectList(raw, label).map((alloc, i): NodeAllocation => {
+                const assets = toList(alloc.assets, `${label}[${i}].assets`).map((value, j) =>
+                    parseAddress(value, `${label}[${i}].assets[${j}]`)
+                )
+                const amounts = toList(alloc.amounts, `${label}[${i}].amounts`).map((value, j) =>
+                    parseBigInt(value, `${label}[${i}].amounts[${j}]`).toString()
+                )
+                assertSameLength([`${label}[${i}].assets`, assets], [`${label}[${i}].amounts`, amounts])
+
+                return { nodeId: parseUint(alloc.nodeId, `${label}[${i}].nodeId`).toString(), assets, amounts }
+            })
+    }
+}
+
+/**
+ * Throws if the given lists do not all have the same length
+ *
+ * @param lists
+ */
+export function assertSameLength(...lists: [string, unknown[]][]) {
+    const [first, ...rest] = lists
+
+    for (const [label, list] of rest) {
+        if (list.length !== first[1].length) {
+            throw new Error(
+                `Length mismatch: ${first[0]} has ${first[1].length} entries, ${label} has ${list.length} entries`
+            )
+        }
+    }
+}
+
+// --- Helper functions ---
+
+function parseAddress(raw: unknown, label: string): `0x${string}` {
+    if (typeof raw !== 'string' || !isAddress(raw, { strict: false })) {
+        throw new Error(`Invalid address for ${label}: ${String(raw)}`)
+    }
+
+    return getAddress(raw)
+}
+
+function parseBigInt(raw: unknown, label: string): bigint {
+    if ((typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'bigint') || raw === '') {
+        throw new Error(`Invalid integer for ${label}: ${String(raw)}`)
+    }
+
+    let value: bigint
+    try {
+        value = BigInt(raw)
+    } catch {
+        throw new Error(`Invalid integer for ${label}: ${String(raw)}`)
+    }
+
+    if (value < 0n) throw new Error(`Invalid integer for ${label}: must not be negative`)
+    return value
+}
+
+function parseUint(raw: unknown, label: string): number {
+    const value = parseBigInt(raw, label)
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error(`Invalid integer for ${label}: too large`)
+    return Number(value)
+}
+
+function parseHex(raw: unknown, label: string, size?: number): `0x${string}` {
+    if (typeof raw !== 'string' || !isHex(raw, { strict: true })) {
+        throw new Error(`Invalid hex value for ${label}: ${String(raw)}`)
+    }
+
+    if (size !== undefined && raw.length !== 2 + size * 2) {
+        throw new Error(`Invalid hex value for ${label}: expected ${size} bytes`)
+    }
+
+    return raw
+}
+
+function toList(raw: unknown, label: string): unknown[] {
+    if (Array.isArray(raw)) return raw
+    if (typeof raw === 'string') {
+        return raw
+            .split(',')
+            .map((value) => value.trim())
+            .filter((value) => value.length > 0)
+    }
+
+    throw new Error(`Invalid list for ${label}: expected an array or comma-separated values`)
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+function toObjectList(raw: unknown, label: string): Record<string, any>[] {
+    let list = raw
+
+    if (typeof raw === 'string') {
+        try {
+            list = JSON.parse(raw)
+        } catch {
+            throw new Error(`Invalid JSON for ${label}`)
+        }
+    }
+
+    if (!Array.isArray(list) || list.some((item) => !item || typeof item !== 'object')) {
+        throw new Error(`Invalid value for ${label}: expected an array of objects`)
+    }
+
+    return list
+}
@@ -0,0 +1,382 @@
+import type { Deployment } from '../utils/deployment'
+import { type OptionSpec, type ParsedArgs, assertSameLength } from './args'
+
+export interface CommandSpec {
+    name: string
+    description: string
+    multisig?: 'admin' | 'pauser' // Multisig the command proposes to, if any
+    options: OptionSpec[]
+    validate?: (args: ParsedArgs) => void
+    run: (deployment: Deployment, args: ParsedArgs) => Promise<unknown>
+}
+
+const ROLE_OPTIONS: OptionSpec[] = [
+    { key: 'contract', type: 'address', required: true, description: 'AccessControl contract to update' },
+    {
+        key: 'role',
+        type: 'string',
+        required: true,
+        description: 'Role name (e.g. DEFAULT_ADMIN_ROLE, PAUSER_ROLE) or bytes32 role hash'
+    },
+    { key: 'account', type: 'address', required: true, description: 'Account the role is granted to or revoked from' }
+]
+
+export const COMMANDS: CommandSpec[] = [
+    // Manager tasks
+    {
+        name: 'create-staker-nodes',
+        description: 'Propose creating a number of staker nodes on StakerNodeCoordinator',
+        multisig: 'admin',
+        options: [{ key: 'count', type: 'uint', required: true, description: 'Number of staker nodes to create' }],
+        validate: (args) => {
+            if (args.count === 0) throw new Error('--count must be greater than 0')
+        },
+        run: async (deployment, args) => {
+            const { createStakerNodes } = await import('../tasks/createStakerNodes')
+            return createStakerNodes(deployment, args.count)
+        }
+    },
+    {
+        name: 'delegate-nodes',
+        description: 'Propose delegating a set of staker nodes to a set of operators',
+        multisig: 'admin',
+        options: [
+            { key: 'nodeIds', type: 'uint[]', required: true, description: 'Staker node IDs' },
+            { key: 'operators', type: 'address[]', required: true, description: 'Operator for each node' },
+            {
+                key: 'signatures',
+                type: 'signatures',
+                default: [],
+                description: 'Approver signatures as JSON, e.g. [{"signature":"0x..","expiry":"0"}]'
+            },
+            { key: 'salts', type: 'bytes32[]', default: [], description: 'Approver salts' }
+        ],
+        validate: (args) => {
+            assertSameLength(['--node-ids', args.nodeIds], ['--operators', args.operators])
+            if (args.signatures.length > 0 || args.salts.length > 0) {
+                assertSameLength(
+                    ['--node-ids', args.nodeIds],
+                    ['--signatures', args.signatures],
+                    ['--salts', args.salts]
+                )
+            }
+        },
+        run: async (deployment, args) => {
+            const { delegateNodes } = await import('../tasks/delegateNodes')
+            return delegateNodes(deployment, args.nodeIds, args.operators, args.signatures, args.salts)
+        }
+    },
+    {
+        name: 'stake-assets-to-node',
+        description: 'Propose staking a set of assets to a single staker node',
+        multisig: 'admin',
+        options: [
+            { key: 'nodeId', type: 'uint', required: true, description: 'Staker node ID' },
+            { key: 'assets', type: 'address[]', required: true, description: 'Assets to stake' },
+            { key: 'amounts', type: 'bigint[]', required: true, description: 'Amount of each asset, in wei' }
+        ],
+        validate: (args) => assertSameLength(['--assets', args.assets], ['--amounts', args.amounts]),
+        run: async (deployment, args) => {
+            const { stakeAssetsToNode } = await import('../tasks/stakeAssetsToNode')
+            return stakeAssetsToNode(
+                deployment,
+                args.nodeId.toString(),
+                args.assets,
+                args.amounts.map((amount: bigint) => amount.toString())
+            )
+        }
+    },
+    {
+        name: 'stake-assets-to-nodes',
+        description: 'Propose staking a set of assets across a set of staker nodes',
+        multisig: 'admin',
+        options: [
+            {
+                key: 'allocations',
+                type: 'allocations',
+                required: true,
+                description: 'Allocations as JSON, e.g. [{"nodeId":0,"assets":["0x.."],"amounts":["1000"]}]'
+            }
+        ],
+        validate: (args) => {
+            if (args.allocations.length === 0) throw new Error('--allocations must not be empty')
+        },
+        run: async (deployment, args) => {
+            const { stakeAssetsToNodes } = await import('../tasks/stakeAssetsToNodes')
+            return stakeAssetsToNodes(deployment, args.allocations)
+        }
+    },
+    {
+        name: 'undelegate-nodes',
+        description: 'Propose undelegating a set of staker nodes',
+        multisig: 'admin',
+        options: [{ key: 'nodeIds', type: 'uint[]', required: true, description: 'Staker node IDs' }],
+        run: async (deployment, args) => {
+            const { undelegateNodes } = await import('../tasks/undelegateNodes')
+            return undelegateNodes(deployment, args.nodeIds)
+        }
+    },
+
+    // System tasks
+    {
+        name: 'add-token',
+        description: 'Propose adding a token to LiquidTokenManager',
+        multisig: 'admin',
+        options: [
+            { key: 'token', type: 'address', required: true, description: 'Token address' },
+            { key: 'decimals', type: 'uint', required: true, description: 'Token decimals' },
+            {
+                key: 'volatilityThreshold',
+                type: 'bigint',
+                required: true,
+                description: 'Allowed price change ratio, in 1e18'
+            },
+            { key: 'strategy', type: 'address', required: true, description: 'EigenLayer strategy for the token' },
+            {
+                key: 'primaryType',
+                type: 'uint',
+                required: true,
+                description: 'Primary price source type (1=Chainlink, 2=Curve, 3=Protocol)'
+            },
+            { key: 'primarySource', type: 'address', required: true, description: 'Primary price source' },
+            { key: 'needsArg', type: 'uint', required: true, description: 'Whether the fallback fn needs args (0/1)' },
+            { key: 'fallbackSource', type: 'address', required: true, description: 'Fallback price source' },
+            { key: 'fallbackFn', type: 'bytes4', required: true, description: 'Fallback function selector' }
+        ],
+        validate: (args) => {
+            if (args.decimals > 255) throw new Error('--decimals must fit in uint8')
+            if (args.primaryType > 3) throw new Error('--primary-type must be between 0 and 3')
+            if (args.needsArg > 1) throw new Error('--needs-arg must be 0 or 1')
+        },
+        run: async (deployment, args) => {
+            const { addToken } = await import('../tasks/system/addToken')
+            return addToken(
+                deployment,
+                args.token,
+                args.decimals,
+                args.volatilityThreshold.toString(),
+                args.strategy,
+                args.primaryType,
+                args.primarySource,
+                args.needsArg,
+                args.fallbackSource,
+                args.fallbackFn
+            )
+        }
+    },
+    {
+        name: 'onboard-tokens',
+        description:
+            'Propose adding the unsupported tokens of a LAT config file to LiquidTokenManager, after checking each one',
+        multisig: 'admin',
+        options: [
+            {
+                key: 'config',
+                type: 'string',
+                required: true,
+                description: 'LAT config file in script/configs/<network>, e.g. xeigenda-eth.anvil.config.json'
+            }
+        ],
+        run: async (deployment, args) => {
+            const { onboardTokens } = await import('../workflows/onboardTokens')
+            return onboardTokens(deployment, args.config)
+        }
+    },
+    {
+        name: 'batch-update-rates',
+        description: 'Propose updating the rates of a set of tokens on TokenRegistryOracle',
+        multisig: 'admin',
+        options: [
+            { key: 'tokens', type: 'address[]', required: true, description: 'Token addresses' },
+            { key: 'rates', type: 'bigint[]', required: true, description: 'New rate for each token, in 1e18' }
+        ],
+        validate: (args) => assertSameLength(['--tokens', args.tokens], ['--rates', args.rates]),
+        run: async (deployment, args) => {
+            const { batchUpdateRates } = await import('../tasks/system/batchUpdateRates')
+            return batchUpdateRates(deployment, args.tokens, args.rates)
+        }
+    },
+    {
+        name: 'disable-emergency-interval',
+        description: 'Propose disabling the emergency price update interval on TokenRegistryOracle',
+        multisig: 'admin',
+        options: [],
+        run: async (deployment) => {
+            const { disableEmergencyInterval } = await import('../tasks/system/disableEmergencyInterval')
+            return disableEmergencyInterval(deployment)
+        }
+    },
+    {
+        name: 'grant-role',
+        description: 'Propose granting a role on an AccessControl contract',
+        multisig: 'admin',
+        options: ROLE_OPTIONS,
+        run: async (deployment, args) => {
+            const { grantRole } = await import('../tasks/system/grantRole')
+            return grantRole(deployment, args.contract, args.role, args.account)
+        }
+    },
+    {
+        name: 'pause-liquid-token',
+        description: 'Propose pausing LiquidToken (pauser multisig)',
+        multisig: 'pauser',
+        options: [],
+        run: async (deployment) => {
+            const { pauseLiquidToken } = await import('../tasks/system/pauseLiquidToken')
+            return pauseLiquidToken(deployment)
+        }
+    },
+    {
+        name: 'remove-token',
+        description: 'Propose removing a token from LiquidTokenManager',
+        multisig: 'admin',
+        options: [{ key: 'token', type: 'address', required: true, description: 'Token address' }],
+        run: async (deployment, args) => {
+            const { removeToken } = await import('../tasks/system/removeToken')
+            return removeToken(deployment, args.token)
+        }
+    },
+    {
+        name: 'revoke-role',
+        description: 'Propose revoking a role on an AccessControl contract',
+        multisig: 'admin',
+        options: ROLE_OPTIONS,
+        run: async (deployment, args) => {
+            const { revokeRole } = await import('../tasks/system/revokeRole')
+            return revokeRole(deployment, args.contract, args.role, args.account)
+        }
+    },
+    {
+        name: 'set-max-nodes',
+        description: 'Propose setting the maximum number of staker nodes on StakerNodeCoordinator',
+        multisig: 'admin',
+        options: [{ key: 'maxNodes', type: 'bigint', required: true, description: 'New maximum number of nodes' }],
+        run: async (deployment, args) => {
+            const { setMaxNodes } = await import('../tasks/system/setMaxNodes')
+            return setMaxNodes(deployment, args.maxNodes.toString())
+        }
+    },
+    {
+        name: 'set-price-update-interval',
+        description: 'Propose setting the price update interval on TokenRegistryOracle (enables emergency mode)',
+        multisig: 'admin',
+        options: [{ key: 'interval', type: 'bigint', required: true, description: 'Interval, in seconds' }],
+        validate: (args) => {
+            if (args.interval === 0n) throw new Error('--interval must be greater than 0')
+        },
+        run: async (deployment, args) => {
+            const { setPriceUpdateInterval } = await import('../tasks/system/setPriceUpdateInterval')
+            return setPriceUpdateInterval(deployment, args.interval)
+        }
+    },
+    {
+        name: 'set-volatility-threshold',
+        description: 'Propose setting the volatility threshold of an asset on LiquidTokenManager',
+        multisig: 'admin',
+        options: [
+            { key: 'asset', type: 'address', required: true, description: 'Asset address' },
+            { key: 'threshold', type: 'bigint', required: true, description: 'New threshold, in 1e18' }
+        ],
+        run: async (deployment, args) => {
+            const { setVolatilityThreshold } = await import('../tasks/system/setVolatilityThreshold')
+            return setVolatilityThreshold(deployment, args.asset, args.threshold.toString())
+        }
+    },
+    {
+        name: 'unpause-liquid-token',
+        description: 'Propose unpausing LiquidToken',
+        multisig: 'admin',
+        options: [],
+        run: async (deployment) => {
+            const { unpauseLiquidToken } = await import('../tasks/system/unpauseLiquidToken')
+            return unpauseLiquidToken(deployment)
+        }
+    },
+    {
+        name: 'update-all-prices-if-needed',
+        description: 'Propose updating all token prices on TokenRegistryOracle if they are stale',
+        multisig: 'admin',
+        options: [],
+        run: async (deployment) => {
+            const { updateAllPricesIfNeeded } = await import('../tasks/system/updateAllPricesIfNeeded')
+            return updateAllPricesIfNeeded(deployment)
+        }
+    },
+    {
+        name: 'upgrade-staker-node-implementation',
+        description: 'Propose upgrading the staker node implementation on StakerNodeCoordinator',
+        multisig: 'admin',
+        options: [
+            { key: 'implementation', type: 'address', required: true, description: 'New implementation contract' }
+        ],
+        run: async (deployment, args) => {
+            const { upgradeStakerNodeImplementation } = await import('../tasks/system/upgradeStakerNodeImplementation')
+            return upgradeStakerNodeImplementation(deployment, args.implementation)
+        }
+    },
+
+    // Monitoring
+    {
+        name: 'monitor-operators',
+        description: 'Check the operator of every delegated node and report unhealthy operators',
+        multisig: 'admin',
+        options: [
+            {
+                key: 'proposeUndelegation',
+                type: 'boolean',
+                default: false,
+                description: 'Also propose undelegating the nodes of unhealthy operators'
+            }
+        ],
+        run: async (deployment, args) => {
+            const { monitorOperators } = await import('../workflows/monitorOperators')
+            return monitorOperators(deployment, args.proposeUndelegation)
+        }
+    },
+
+    {
+        name: 'verify-stakes',
+        description: 'Verify executed staking proposals in the ledger against the allocations they were planned with',
+        options: [],
+        run: async (deployment) => {
+            const { verifyStakes } = await import('../workflows/verifyStakes')
+            return verifyStakes(deployment)
+        }
+    },
+
+    // Read-only commands
+    {
+        name: 'reconcile-proposals',
+        description: 'Update the status of every proposal in the ledger from the transaction service and the chain',
+        options: [],
+        run: async (deployment) => {
+            const { reconcileProposals } = await import('../workflows/reconcileProposals')
+            return reconcileProposals(deployment)
+        }
+    },
+    {
+        name: 'proposals',
+        description: 'List pending proposals on the admin and pauser multisigs with their decoded calls',
+        options: [
+            {
+                key: 'multisig',
+                type: 'string',
+                default: 'all',
+                description: 'Multisig to inspect: admin, pauser or all'
+            }
+        ],
+        validate: (args) => {
+            if (!['admin', 'pauser', 'all'].includes(args.multisig)) {
+                throw new Error(`Invalid value for --multisig: ${args.multisig}`)
+            }
+        },
+        run: async (deployment, args) => {
+            const { inspectPendingProposals, printSafeQueue } = await import('../utils/proposals')
+            const multisigs: ('admin' | 'pauser')[] = args.multisig === 'all' ? ['admin', 'pauser'] : [args.multisig]
+
+            for (const multisig of multisigs) {
+                printSafeQueue(deployment, await inspectPendingProposals(deployment, multisig))
+            }
+        }
+    }
+]
@@ -0,0 +1,140 @@
+import 'dotenv/config'
+
+import { parseArgs } from 'node:util'
+import { getFlagOptions, resolveArgs, toFlag } from './args'
+import { type CommandSpec, COMMANDS } from './commands'
+import type { Deployment } from '../utils/deployment'
+import { setDryRun } from '../utils/dryRun'
+import { createLogger } from '../utils/logger'
+import { withRun } from '../utils/run'
+
+const log = createLogger('Manager')
+
+/**
+ * Single entrypoint for all manager tasks
+ * Run `npm run manager -- <command> [options]` from the `/manager` folder
+ *
+ * IMPORTANT:
+ * Make sure the .env is updated to the LAT and the deployment you're targetting!
+ *
+ */
+async function main(argv: string[]) {
+    const [commandName, ...rest] = argv
+
+    if (!commandName || commandName === '--help' || commandName === '-h') {
+        console.log(usage())
+        return
+    }
+
+    const command = COMMANDS.find((c) => c.name === commandName)
+    if (!command) throw new Error(`Unknown command "${commandName}". Run with --help to list all commands.`)
+
+    const { values } = parseArgs({
+        args: rest,
+        strict: true,
+        options: {
+            help: { type: 'boolean', short: 'h' },
+            input: { type: 'string', short: 'i' },
+            'dry-run': { type: 'boolean' },
+            'dry-run-output': { type: 'string' },
+            lat: { type: 'string' },
+            ...getFlagOptions(command.options)
+        }
+    })
+
+    if (values.help) {
+        console.log(commandUsage(command))
+        return
+    }
+
+    const args = await resolveArgs(command, values)
+
+    if (values['dry-run']) setDryRun(true, values['dry-run-output'] as string | undefined)
+
+    const { getPendingProposals } = await import('../utils/forge')
+
+    await withRun(command.name, async () => {
+        log.info(`Running ${command.name}...`)
+
+        const deployment = await resolveDeployment(values.lat as string | undefined)
+        await command.run(deployment, args)
+
+        if (!command.multisig) return
+
+        const pendingTransactions = await getPendingProposals(deployment, command.multisig)
+        if (pendingTransactions.length > 0) {
+            const latestNonce = Math.max(...pendingTransactions.map((tx) => Number(tx.nonce)))
+            log.info(`${command.name}: latest pending nonce: ${latestNonce}`)
+        }
+    })
+}
+
+/**
+ * Refreshes and returns the deployment the command runs against
+ * In multi-LAT mode, this is the deployment of the LAT picked with `--lat`
+ *
+ * @param latName
+ * @returns
+ */
+async function resolveDeployment(latName: string | undefined): Promise<Deployment> {
+    const { refreshDeployment } = await import('../workflows/refreshDeployment')
+    const { isMultiLat, loadLatDeployment, loadRegistry } = await import('../utils/registry')
+
+    if (!isMultiLat()) {
+        if (latName) throw new Error('--lat requires a LAT registry in config')
+        return refreshDeployment()
+    }
+
+    if (!latName) throw new Error('A LAT registry is set in config. Pick a LAT with --lat <name>')
+
+    const lats = await loadRegistry()
+    const lat = lats.find((entry) => entry.name === latName)
+    if (!lat) throw new Error(`Unknown LAT "${latName}". Registry LATs: ${lats.map((entry) => entry.name).join(', ')}`)
+
+    if (lat.deployment.repo) await refreshDeployment(lat.deployment)
+    return loadLatDeployment(lat)
+}
+
+function usage(): string {
+    const width = Math.max(...COMMANDS.map((c) => c.name.length)) + 2
+    return [
+        'Usage: npm run manager -- <command> [options]',
+        '',
+        'Options for every command:',
+        '  --input, -i <file>       Read command args from a JSON or YAML file (flags take precedence)',
+        '  --dry-run                Print the decoded proposal instead of proposing it (or set DRY_RUN=true)',
+        '  --dry-run-output <file>  Also write dry-run proposals to a JSON file (or set DRY_RUN_OUTPUT)',
+        '  --lat <name>             LAT to run against, in multi-LAT mode',
+        '  --help, -h               Show help for a command',
+        '',
+        'Commands:',
+        ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}${c.description}`)
+    ].join('\n')
+}
+
+function commandUsage(command: CommandSpec): string {
+    const flags = command.options.map((option) =>
+        option.type === 'boolean' ? toFlag(option.key) : `${toFlag(option.key)} <${option.type}>`
+    )
+    const width = Math.max(0, ...flags.map((flag) => flag.length)) + 2
+    return [
+        `Usage: npm run manager -- ${command.name} [options]`,
+        '',
+        command.description,
+        command.multisig ? `Proposes to the ${command.multisig} multisig.` : 'Does not propose any transaction.',
+        '',
+        'Options:',
+        ...command.options.map(
+            (option, i) => `  ${flags[i].padEnd(width)}${option.description}${option.required ? ' (required)' : ''}`
+        ),
+        '',
+        'Lists take comma-separated values. Input files use the camelCase option names, e.g. `nodeIds`.'
+    ].join('\n')
+}
+
+try {
+    await main(process.argv.slice(2))
+} catch (error) {
+    log.error('Command failed', error)
+    process.exitCode = 1
+}
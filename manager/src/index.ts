@@ -1,40 +1,87 @@
 import 'dotenv/config'
 
-import { refreshDeployment } from './workflows/refreshDeployment'
-import { stakeUnstakedAssets } from './workflows/stakeUnstakedAssets'
+import { getConfig } from './utils/config'
+import { setDryRun } from './utils/dryRun'
+import { getOutputFile } from './utils/forge'
+import { loadDeployment } from './utils/deployment'
+import { isMultiLat, loadLatDeployment, loadRegistry } from './utils/registry'
+import { createLogger } from './utils/logger'
+import { collectMetrics, startMonitoringServer } from './utils/monitoring'
+import { runWithRetry, scheduleWorkflow, stopScheduler } from './utils/scheduler'
+import { WORKFLOWS } from './workflows'
 
-console.log('Initializing Restaking Manager ...')
+const log = createLogger('Manager')
 
-// Constants
-const MAX_RETRIES = 3
-const RETRY_DELAY = 15 * 60
+log.info('Initializing Restaking Manager ...')
 
 /**
- * Daily responsibilities of restaking manager
+ * Runs every enabled workflow once, in order, and exits
+ * Use with `npm start -- --once`
  *
- * @param retryCount
  */
-async function dailyResponsibilities(retryCount = 0) {
-    try {
-        console.log('\n[Manager] Performing daily responsibilities...')
-
-        console.time('[Manager] Completed all responsibilities in')
-
-        await refreshDeployment()
-        await stakeUnstakedAssets()
-
-        console.timeEnd('[Manager] Completed all responsibilities in')
-    } catch (error) {
-        console.log(`[Manager] Failed to perform daily responsibilities at: ${Date.now()}`)
-        console.log(error)
-
-        if (retryCount < MAX_RETRIES) {
-            console.log(`[Manager] Retrying in 15 minutes... (Attempt ${retryCount + 1} of ${MAX_RETRIES})`)
-            setTimeout(() => dailyResponsibilities(retryCount + 1), RETRY_DELAY * 1000)
-        } else {
-            console.log('[Manager] Max retries reached. Performing daily repsonsibilities failed.')
-        }
+async function runOnce() {
+    const { scheduler } = getConfig()
+
+    const startedAt = Date.now()
+
+    for (const [name, workflow] of Object.entries(WORKFLOWS)) {
+        if (!scheduler.workflows[name]?.enabled) continue
+
+        const { success } = await runWithRetry(name, workflow, scheduler.retry)
+        if (!success) process.exitCode = 1
     }
+
+    log.info(`Completed all responsibilities in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`)
 }
 
-await dailyResponsibilities()
+/**
+ * Schedules every enabled workflow on its cron expression and keeps running
+ * Serves `/healthz` and `/metrics` unless `metrics.enabled` is off in config
+ *
+ */
+async function startDaemon() {
+    const { metrics, scheduler } = getConfig()
+
+    const server = metrics.enabled ? startMonitoringServer(collectAllMetrics) : null
+
+    // Deployment addresses are needed by every other workflow
+    await runWithRetry('refreshDeployment', WORKFLOWS.refreshDeployment, scheduler.retry)
+
+    for (const [name, schedule] of Object.entries(scheduler.workflows)) {
+        if (!schedule.enabled) continue
+
+        const workflow = WORKFLOWS[name]
+        if (!workflow) throw new Error(`Unknown workflow in config: ${name}`)
+
+        scheduleWorkflow(name, workflow, schedule, scheduler.retry)
+    }
+
+    for (const signal of ['SIGINT', 'SIGTERM']) {
+        process.once(signal, async () => {
+            log.info(`Received ${signal}. Stopping scheduler...`)
+            await stopScheduler()
+            server?.close()
+            process.exit(0)
+        })
+    }
+}
+
+/**
+ * Records the metrics of every LAT the manager runs for
+ *
+ */
+async function collectAllMetrics() {
+    const deployments = isMultiLat()
+        ? await Promise.all((await loadRegistry()).filter((lat) => lat.enabled).map(loadLatDeployment))
+        : [await loadDeployment(getOutputFile())]
+
+    await Promise.all(deployments.map(collectMetrics))
+}
+
+if (process.argv.includes('--dry-run')) setDryRun(true)
+
+if (process.argv.includes('--once')) {
+    await runOnce()
+} else {
+    await startDaemon()
+}
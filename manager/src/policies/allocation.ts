@@ -0,0 +1,320 @@
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+
+export interface StakingAmount {
+    asset: string
+    amount: bigint
+}
+
+export interface AllocationNode {
+    nodeId: number
+    address: string
+    operatorDelegation: string
+}
+
+export interface AllocationTokenInfo {
+    address: string
+    strategyAddress: string
+    decimals: number
+    pricePerUnit: string
+}
+
+export interface AllocationInput {
+    stakingAmounts: StakingAmount[] // Amount of each asset to distribute
+    nodes: AllocationNode[] // Delegated nodes only
+    operatorStrategies: Map<string, string[]> // Lowercase operator => lowercase strategies it restakes
+    tokenInfo: Map<string, AllocationTokenInfo> // Lowercase asset => token info
+    nodeBalances?: Map<number, Map<string, bigint>> // Node ID => lowercase asset => staked amount
+}
+
+export interface AllocationPolicy {
+    name: string
+    requiresNodeBalances: boolean
+    allocate(input: AllocationInput): NodeAllocation[]
+}
+
+export type AllocationPolicyConfig =
+    | { type: 'even' }
+    | { type: 'weighted'; weights: Record<string, number> } // Operator => weight
+    | { type: 'fillToTarget' }
+    | { type: 'cappedPerNode'; maxPerNode: string } // In unit of account (ETH), 1e18
+
+/**
+ * Returns the allocation policy for a config entry
+ *
+ * @param config
+ * @returns
+ */
+export function createAllocationPolicy(config: AllocationPolicyConfig): AllocationPolicy {
+    switch (config.type) {
+        case 'even':
+            return { name: 'even', requiresNodeBalances: false, allocate: allocateEvenly }
+        case 'weighted':
+            return {
+                name: 'weighted',
+                requiresNodeBalances: false,
+                allocate: (input) => allocateByWeight(input, config.weights)
+            }
+        case 'fillToTarget':
+            return { name: 'fillToTarget', requiresNodeBalances: true, allocate: allocateToTarget }
+        case 'cappedPerNode':
+            return {
+                name: 'cappedPerNode',
+                requiresNodeBalances: false,
+                allocate: (input) => allocateWithCap(input, BigInt(config.maxPerNode))
+            }
+        default:
+            throw new Error(`Unknown allocation policy: ${(config as { type: string }).type}`)
+    }
+}
+
+/**
+ * Policy: Split every asset evenly across all nodes whose Operators restake it
+ *
+ * @param input
+ * @returns
+ */
+export function allocateEvenly(input: AllocationInput): NodeAllocation[] {
+    const allocations: NodeAllocation[] = []
+
+    for (const { asset, amount, eligibleNodes } of eligibleAssets(input)) {
+        const amountPerNode = amount / BigInt(eligibleNodes.length)
+
+        for (const node of eligibleNodes) {
+            addAllocation(allocations, node.nodeId, asset, amountPerNode)
+        }
+    }
+
+    return allocations
+}
+
+/**
+ * Policy: Split every asset across eligible nodes in proportion to their Operator's weight
+ * An Operator's share is split evenly across its nodes, and Operators without a weight receive nothing
+ *
+ * @param input
+ * @param weights
+ * @returns
+ */
+export function allocateByWeight(input: AllocationInput, weights: Record<string, number>): NodeAllocation[] {
+    const allocations: NodeAllocation[] = []
+    const scaledWeights = new Map(
+        Object.entries(weights).map(([operator, weight]) => [
+            operator.toLowerCase(),
+            BigInt(Math.round(Math.max(weight, 0) * 1e6))
+        ])
+    )
+
+    for (const { asset, amount, eligibleNodes } of eligibleAssets(input)) {
+        const nodesPerOperator = new Map<string, number>()
+        for (const node of eligibleNodes) {
+            const operator = node.operatorDelegation.toLowerCase()
+            nodesPerOperator.set(operator, (nodesPerOperator.get(operator) ?? 0) + 1)
+        }
+
+        const totalWeight = [...nodesPerOperator.keys()].reduce(
+            (sum, operator) => sum + (scaledWeights.get(operator) ?? 0n),
+            0n
+        )
+        if (totalWeight === 0n) continue
+
+        for (const node of eligibleNodes) {
+            const operator = node.operatorDelegation.toLowerCase()
+            const weight = scaledWeights.get(operator) ?? 0n
+            const nodeCount = BigInt(nodesPerOperator.get(operator) ?? 1)
+
+            addAllocation(allocations, node.nodeId, asset, (amount * weight) / (totalWeight * nodeCount))
+        }
+    }
+
+    return allocations
+}
+
+/**
+ * Policy: Bring every eligible node toward an equal total value in unit of account
+ * Each asset is poured into the lowest-valued eligible nodes first
+ *
+ * @param input
+ * @returns
+ */
+export function allocateToTarget(input: AllocationInput): NodeAllocation[] {
+    const allocations: NodeAllocation[] = []
+
+    // Current value of every node in unit of account
+    const nodeValues = new Map<number, bigint>()
+    for (const node of input.nodes) {
+        let value = 0n
+        for (const [asset, balance] of input.nodeBalances?.get(node.nodeId) ?? []) {
+            const tokenInfo = input.tokenInfo.get(asset)
+            if (tokenInfo) value += toUnitOfAccount(balance, tokenInfo)
+        }
+        nodeValues.set(node.nodeId, value)
+    }
+
+    for (const { asset, amount, eligibleNodes, tokenInfo } of eligibleAssets(input)) {
+        const budget = toUnitOfAccount(amount, tokenInfo)
+        const sorted = [...eligibleNodes].sort((a, b) => compare(nodeValues.get(a.nodeId), nodeValues.get(b.nodeId)))
+
+        // Find the level that the lowest `count` nodes can all be filled to with the budget
+        let count = 0
+        let level = 0n
+        let filledSum = 0n
+        for (const node of sorted) {
+            const value = nodeValues.get(node.nodeId) ?? 0n
+            if (count > 0 && level <= value) break
+
+            count++
+            filledSum += value
+            level = (budget + filledSum) / BigInt(count)
+        }
+
+        let remaining = amount
+        for (const node of sorted.slice(0, count)) {
+            const value = nodeValues.get(node.nodeId) ?? 0n
+            if (level <= value) continue
+
+            const nodeAmount = min(fromUnitOfAccount(level - value, tokenInfo), remaining)
+            remaining -= nodeAmount
+
+            addAllocation(allocations, node.nodeId, asset, nodeAmount)
+            nodeValues.set(node.nodeId, value + toUnitOfAccount(nodeAmount, tokenInfo))
+        }
+    }
+
+    return allocations
+}
+
+/**
+ * Policy: Split every asset evenly across eligible nodes, without any node receiving more than
+ * `maxPerNode` in unit of account during a run. Amounts above every node's cap stay unstaked
+ *
+ * @param input
+ * @param maxPerNode
+ * @returns
+ */
+export function allocateWithCap(input: AllocationInput, maxPerNode: bigint): NodeAllocation[] {
+    const allocations: NodeAllocation[] = []
+    const capacity = new Map(input.nodes.map((node) => [node.nodeId, maxPerNode]))
+
+    for (const { asset, amount, eligibleNodes, tokenInfo } of eligibleAssets(input)) {
+        const nodeAmounts = new Map<number, bigint>()
+        let remaining = amount
+
+        while (remaining > 0n) {
+            const open = eligibleNodes.filter((node) => (capacity.get(node.nodeId) ?? 0n) > 0n)
+            const share = open.length > 0 ? remaining / BigInt(open.length) : 0n
+            if (share === 0n) break
+
+            for (const node of open) {
+                const nodeCapacity = fromUnitOfAccount(capacity.get(node.nodeId) ?? 0n, tokenInfo)
+                const nodeAmount = min(share, nodeCapacity)
+                if (nodeAmount === 0n) {
+                    capacity.set(node.nodeId, 0n)
+                    continue
+                }
+
+                remaining -= nodeAmount
+                nodeAmounts.set(node.nodeId, (nodeAmounts.get(node.nodeId) ?? 0n) + nodeAmount)
+
+                const used = toUnitOfAccount(nodeAmount, tokenInfo)
+                const left = (capacity.get(node.nodeId) ?? 0n) - used
+                capacity.set(node.nodeId, nodeAmount < share || left < 0n ? 0n : left)
+            }
+        }
+
+        for (const [nodeId, nodeAmount] of nodeAmounts) {
+            addAllocation(allocations, nodeId, asset, nodeAmount)
+        }
+    }
+
+    return allocations
+}
+
+/**
+ * Returns the nodes whose Operators restake a strategy
+ *
+ * @param nodes
+ * @param operatorStrategies
+ * @param strategyAddress
+ * @returns
+ */
+export function getEligibleNodes(
+    nodes: AllocationNode[],
+    operatorStrategies: Map<string, string[]>,
+    strategyAddress: string
+): AllocationNode[] {
+    return nodes.filter((node) =>
+        operatorStrategies.get(node.operatorDelegation.toLowerCase())?.includes(strategyAddress.toLowerCase())
+    )
+}
+
+/**
+ * Converts a token amount to unit of account using its price, in 1e18
+ *
+ * @param amount
+ * @param tokenInfo
+ * @returns
+ */
+export function toUnitOfAccount(amount: bigint, tokenInfo: AllocationTokenInfo): bigint {
+    return (amount * BigInt(tokenInfo.pricePerUnit)) / 10n ** BigInt(tokenInfo.decimals)
+}
+
+/**
+ * Converts an amount in unit of account to a token amount using its price, in 1e18
+ *
+ * @param value
+ * @param tokenInfo
+ * @returns
+ */
+export function fromUnitOfAccount(value: bigint, tokenInfo: AllocationTokenInfo): bigint {
+    const price = BigInt(tokenInfo.pricePerUnit)
+    if (price === 0n) return 0n
+    return (value * 10n ** BigInt(tokenInfo.decimals)) / price
+}
+
+// --- Helper functions ---
+
+function eligibleAssets(input: AllocationInput) {
+    const assets: {
+        asset: string
+        amount: bigint
+        tokenInfo: AllocationTokenInfo
+        eligibleNodes: AllocationNode[]
+    }[] = []
+
+    for (const { asset, amount } of input.stakingAmounts) {
+        const tokenInfo = input.tokenInfo.get(asset.toLowerCase())
+        if (!tokenInfo || amount <= 0n) continue
+
+        const eligibleNodes = getEligibleNodes(input.nodes, input.operatorStrategies, tokenInfo.strategyAddress)
+        if (eligibleNodes.length === 0) continue
+
+        assets.push({ asset, amount, tokenInfo, eligibleNodes })
+    }
+
+    return assets
+}
+
+function addAllocation(allocations: NodeAllocation[], nodeId: number, asset: string, amount: bigint) {
+    if (amount <= 0n) return
+
+    const existingAllocation = allocations.find((alloc) => alloc.nodeId === nodeId.toString())
+
+    if (existingAllocation) {
+        existingAllocation.assets.push(asset)
+        existingAllocation.amounts.push(amount.toString())
+    } else {
+        allocations.push({
+            nodeId: nodeId.toString(),
+            assets: [asset],
+            amounts: [amount.toString()]
+        })
+    }
+}
+
+function compare(a = 0n, b = 0n): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b
+}
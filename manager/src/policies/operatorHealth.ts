@@ -0,0 +1,66 @@
+export type OperatorIssue =
+    | { type: 'strategyNotRestaked'; strategy: string } // The operator's nodes hold the strategy, but the operator stopped restaking it
+    | { type: 'avsDeregistered'; avs: string }
+    | { type: 'slashed'; strategy: string; maxMagnitude: string } // Max magnitude below 1e18 means the operator was slashed
+
+export interface OperatorHealthInput {
+    operator: string
+    nodeIds: number[] // Nodes delegated to the operator
+    heldStrategies: string[] // Strategies the operator's nodes hold a balance in
+    restakedStrategies: string[] // Strategies the operator restakes
+    avs: string | null // The LAT's AVS, if any
+    registeredAvs: string[] // AVSs the operator is actively registered to
+    maxMagnitudes: Map<string, bigint> // Lowercase strategy => operator's max magnitude, in 1e18
+}
+
+export interface OperatorHealth {
+    operator: string
+    nodeIds: number[]
+    healthy: boolean
+    issues: OperatorIssue[]
+}
+
+const WAD = 10n ** 18n
+
+/**
+ * Checks an operator against the LAT: every strategy its nodes hold must still be restaked, it must be
+ * registered to the LAT's AVS and must never have been slashed on any strategy
+ *
+ * @param input
+ * @returns
+ */
+export function checkOperatorHealth(input: OperatorHealthInput): OperatorHealth {
+    const restaked = new Set(input.restakedStrategies.map((strategy) => strategy.toLowerCase()))
+    const issues: OperatorIssue[] = []
+
+    for (const strategy of input.heldStrategies) {
+        if (!restaked.has(strategy.toLowerCase())) issues.push({ type: 'strategyNotRestaked', strategy })
+    }
+
+    if (input.avs && !input.registeredAvs.some((avs) => avs.toLowerCase() === input.avs?.toLowerCase())) {
+        issues.push({ type: 'avsDeregistered', avs: input.avs })
+    }
+
+    for (const [strategy, maxMagnitude] of input.maxMagnitudes) {
+        if (maxMagnitude < WAD) issues.push({ type: 'slashed', strategy, maxMagnitude: maxMagnitude.toString() })
+    }
+
+    return { operator: input.operator, nodeIds: input.nodeIds, healthy: issues.length === 0, issues }
+}
+
+/**
+ * Returns a one-line description of an operator issue
+ *
+ * @param issue
+ * @returns
+ */
+export function describeIssue(issue: OperatorIssue): string {
+    switch (issue.type) {
+        case 'strategyNotRestaked':
+            return `stopped restaking strategy ${issue.strategy}`
+        case 'avsDeregistered':
+            return `deregistered from AVS ${issue.avs}`
+        case 'slashed':
+            return `slashed on strategy ${issue.strategy} (max magnitude ${issue.maxMagnitude})`
+    }
+}
@@ -0,0 +1,73 @@
+export interface ProvisioningNode {
+    nodeId: number
+    operatorDelegation: string // Zero address if the node is not delegated
+}
+
+export interface NodeDelegation {
+    nodeId: number
+    operator: string
+}
+
+export interface ProvisioningInput {
+    operators: string[] // Desired operators, each kept with one delegated node
+    nodes: ProvisioningNode[] // Every node on the coordinator, ordered by ID
+    maxNodes: number
+    pendingCreates: number // Nodes in `createStakerNode` proposals that are not executed yet
+    pendingDelegations: NodeDelegation[] // Delegations in `delegateNodes` proposals that are not executed yet
+}
+
+export interface ProvisioningPlan {
+    delegations: NodeDelegation[] // Existing undelegated nodes to delegate now
+    create: number // Nodes to create now
+    waiting: string[] // Operators waiting on a node that is pending creation
+    unserved: string[] // Operators left without a node, since the coordinator is at `maxNodes`
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+/**
+ * Plans the proposals that bring the nodes in line with the desired operators
+ * Operators without a delegated node get the lowest undelegated node. For the others, nodes are created
+ * up to `maxNodes`. Node IDs only exist once a creation is executed, so operators waiting on new nodes
+ * are delegated by a later plan
+ * Nodes delegated to operators outside the desired set are left as they are
+ *
+ * @param input
+ * @returns
+ */
+export function planProvisioning(input: ProvisioningInput): ProvisioningPlan {
+    const pendingNodeIds = new Set(input.pendingDelegations.map(({ nodeId }) => nodeId))
+    const servedOperators = new Set(
+        [
+            ...input.nodes.map((node) => node.operatorDelegation),
+            ...input.pendingDelegations.map(({ operator }) => operator)
+        ].map((operator) => operator.toLowerCase())
+    )
+
+    const missingOperators = input.operators.filter(
+        (operator, index) =>
+            !servedOperators.has(operator.toLowerCase()) &&
+            input.operators.findIndex((other) => other.toLowerCase() === operator.toLowerCase()) === index
+    )
+    const freeNodes = input.nodes
+        .filter((node) => node.operatorDelegation === ZERO_ADDRESS && !pendingNodeIds.has(node.nodeId))
+        .sort((a, b) => a.nodeId - b.nodeId)
+
+    const delegations = freeNodes
+        .slice(0, missingOperators.length)
+        .map((node, index) => ({ nodeId: node.nodeId, operator: missingOperators[index] }))
+
+    const withoutNode = missingOperators.slice(delegations.length)
+    const waiting = withoutNode.slice(0, input.pendingCreates)
+    const toCreate = withoutNode.slice(waiting.length)
+
+    const capacity = Math.max(0, input.maxNodes - input.nodes.length - input.pendingCreates)
+    const create = Math.min(toCreate.length, capacity)
+
+    return {
+        delegations,
+        create,
+        waiting: [...waiting, ...toCreate.slice(0, create)],
+        unserved: toCreate.slice(create)
+    }
+}
@@ -0,0 +1,143 @@
+import { type AllocationTokenInfo, toUnitOfAccount } from './allocation'
+
+export type ReserveBuffer =
+    | { type: 'percentage'; percentage: number } // Percent of the LAT's `totalAssets()`
+    | { type: 'fixed'; amount: string } // In unit of account (ETH), 1e18
+
+export interface ReservePolicyConfig {
+    buffer?: ReserveBuffer // Idle liquidity kept in the `LiquidToken`, split across assets in proportion to their value
+    minStake?: Record<string, string> // Asset => smallest amount staked in a run, smaller amounts stay idle
+    maxStake?: Record<string, string> // Asset => largest amount staked in a run
+}
+
+export type ReserveRule = 'buffer' | 'maxStake' | 'minStake'
+
+export interface ReserveInput {
+    balances: { asset: string; balance: bigint }[] // Unstaked balance of each asset
+    tokenInfo: Map<string, AllocationTokenInfo> // Lowercase asset => token info
+    totalAssets?: bigint // LAT's `totalAssets()` in unit of account, required for a percentage buffer
+}
+
+export interface ReserveDecision {
+    asset: string
+    balance: string
+    stakeAmount: string
+    heldBack: { rule: ReserveRule; amount: string }[] // Amount of the balance each rule kept unstaked
+}
+
+const PERCENTAGE_SCALE = 1_000_000n // 100% with four decimals
+
+/**
+ * Checks a reserve policy config entry and throws an error naming the first invalid setting
+ *
+ * @param config
+ */
+export function validateReservePolicy(config: ReservePolicyConfig) {
+    const { buffer, minStake = {}, maxStake = {} } = config
+
+    if (buffer) {
+        switch (buffer.type) {
+            case 'percentage':
+                if (typeof buffer.percentage !== 'number' || buffer.percentage < 0 || buffer.percentage > 100) {
+                    throw new Error(`Buffer percentage is not between 0 and 100: ${buffer.percentage}`)
+                }
+                break
+            case 'fixed':
+                toAmount(buffer.amount, 'Buffer amount')
+                break
+            default:
+                throw new Error(`Unknown reserve buffer: ${(buffer as { type: string }).type}`)
+        }
+    }
+
+    for (const [asset, amount] of Object.entries(minStake)) toAmount(amount, `Minimum stake of ${asset}`)
+    for (const [asset, amount] of Object.entries(maxStake)) toAmount(amount, `Maximum stake of ${asset}`)
+}
+
+/**
+ * Returns whether a reserve policy needs the LAT's `totalAssets()`
+ *
+ * @param config
+ * @returns
+ */
+export function requiresTotalAssets(config: ReservePolicyConfig): boolean {
+    return config.buffer?.type === 'percentage'
+}
+
+/**
+ * Policy: Decide how much of every unstaked balance to stake, and how much to hold back
+ * The buffer is held back first, split across assets in proportion to their value in unit of account.
+ * The rest is capped at the asset's maximum stake, and held back entirely if below its minimum stake
+ *
+ * @param input
+ * @param config
+ * @returns
+ */
+export function applyReservePolicy(input: ReserveInput, config: ReservePolicyConfig): ReserveDecision[] {
+    const target = getBufferTarget(config.buffer, input.totalAssets)
+    const minStake = toLowercaseKeys(config.minStake)
+    const maxStake = toLowercaseKeys(config.maxStake)
+
+    const totalValue = input.balances.reduce((sum, { asset, balance }) => {
+        const tokenInfo = input.tokenInfo.get(asset.toLowerCase())
+        return tokenInfo ? sum + toUnitOfAccount(balance, tokenInfo) : sum
+    }, 0n)
+
+    return input.balances.map(({ asset, balance }) => {
+        const heldBack: ReserveDecision['heldBack'] = []
+        const hold = (rule: ReserveRule, amount: bigint) => {
+            if (amount > 0n) heldBack.push({ rule, amount: amount.toString() })
+        }
+
+        let stakeAmount = balance
+
+        const buffer = target >= totalValue ? balance : totalValue > 0n ? (balance * target) / totalValue : 0n
+        hold('buffer', buffer)
+        stakeAmount -= buffer
+
+        const max = maxStake.get(asset.toLowerCase())
+        if (max !== undefined && stakeAmount > max) {
+            hold('maxStake', stakeAmount - max)
+            stakeAmount = max
+        }
+
+        const min = minStake.get(asset.toLowerCase())
+        if (min !== undefined && stakeAmount < min) {
+            hold('minStake', stakeAmount)
+            stakeAmount = 0n
+        }
+
+        return { asset, balance: balance.toString(), stakeAmount: stakeAmount.toString(), heldBack }
+    })
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the idle liquidity to keep in unit of account
+ *
+ * @param buffer
+ * @param totalAssets
+ * @returns
+ */
+function getBufferTarget(buffer: ReserveBuffer | undefined, totalAssets: bigint | undefined): bigint {
+    if (!buffer) return 0n
+
+    if (buffer.type === 'fixed') return BigInt(buffer.amount)
+
+    if (totalAssets === undefined) throw new Error('Total assets are required for a percentage buffer')
+    return (totalAssets * BigInt(Math.round(buffer.percentage * 10_000))) / PERCENTAGE_SCALE
+}
+
+function toLowercaseKeys(amounts: Record<string, string> = {}): Map<string, bigint> {
+    return new Map(Object.entries(amounts).map(([asset, amount]) => [asset.toLowerCase(), BigInt(amount)]))
+}
+
+function toAmount(value: unknown, name: string): bigint {
+    try {
+        const amount = BigInt(value as string)
+        if (amount >= 0n) return amount
+    } catch {}
+
+    throw new Error(`${name} is not a non-negative integer amount: ${value}`)
+}
@@ -1,14 +1,15 @@
 import 'dotenv/config'
 
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
-import { ADMIN, DEPLOYMENT, forgeCommand, createSafeTransactions, proposeSafeTransaction } from '../utils/forge'
-
-const execAsync = promisify(exec)
+import { DEPLOYMENT, createSafeTransactions, forgeCalls, proposeSafeTransaction, useForgeBuilder } from '../utils/forge'
+import { buildDelegateNodes } from '../utils/builders'
+import type { Deployment } from '../utils/deployment'
+import { getApproverSignatures } from '../utils/approvals'
 
 /**
  * Creates a proposal for the `DelegateNodes` task
+ * Without signatures and salts, they are read from each operator's delegation approver
  *
+ * @param deployment
  * @param nodeIds
  * @param operators
  * @param signatures
@@ -16,27 +17,32 @@ const execAsync = promisify(exec)
  * @returns
  */
 export async function delegateNodes(
+    deployment: Deployment,
     nodeIds: string[],
     operators: string[],
     signatures: { signature: string; expiry: number | string }[],
     salts: string[]
 ) {
-    if (!ADMIN) throw new Error('Env vars not set correctly.')
+    const approvals =
+        signatures.length === 0 && salts.length === 0
+            ? await getApproverSignatures(deployment, nodeIds, operators)
+            : { signatures, salts }
 
     // Setup task params
     const task = 'LTM_DelegateNodes.s.sol:DelegateNodes'
-    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : ADMIN
+    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : deployment.admin
     const sig = 'run(string,uint256[],address[],(bytes,uint256)[],bytes32[])'
     const nodeIdsParam = `[${nodeIds.join(',')}]`
     const operatorsParam = `[${operators.map((op) => `"${op}"`).join(',')}]`
-    const signaturesParam =
-        signatures.length > 0 ? `[${signatures.map((sig) => `("${sig.signature}",${sig.expiry})`).join(',')}]` : '[]'
-    const saltsParam = salts.length > 0 ? `[${salts.map((salt) => `"${salt}"`).join(',')}]` : '[]'
+    const signaturesParam = `[${approvals.signatures.map((sig) => `("${sig.signature}",${sig.expiry})`).join(',')}]`
+    const saltsParam = `[${approvals.salts.map((salt) => `"${salt}"`).join(',')}]`
     const params = `${nodeIdsParam} ${operatorsParam} "${signaturesParam}" ${saltsParam}`
 
-    // Simulate task and create transaction
-    const { stdout } = await execAsync(forgeCommand(task, sender, sig, params))
-    const safeTransactions = await createSafeTransactions(stdout)
+    // Build calls natively, or with the forge task if `proposals.builder` is `forge`, and create transactions
+    const calls = useForgeBuilder()
+        ? await forgeCalls(deployment, task, sender, sig, params)
+        : buildDelegateNodes(deployment, nodeIds, operators, approvals.signatures, approvals.salts)
+    const safeTransactions = await createSafeTransactions(deployment, calls)
 
     // Propose transactions to multisig
     for (const safeTx of safeTransactions) {
@@ -44,6 +50,6 @@ export async function delegateNodes(
             title: `Delegate ${nodeIds.length} Staker Nodes`,
             description: `Proposal to delegate a set of staker nodes via ${task}`
         }
-        await proposeSafeTransaction(safeTx, metadata)
+        await proposeSafeTransaction(deployment, safeTx, metadata)
     }
 }
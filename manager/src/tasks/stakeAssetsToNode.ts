@@ -1,33 +1,32 @@
 import 'dotenv/config'
 
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
-import { ADMIN, DEPLOYMENT, forgeCommand, createSafeTransactions, proposeSafeTransaction } from '../utils/forge'
-
-const execAsync = promisify(exec)
+import { DEPLOYMENT, createSafeTransactions, forgeCalls, proposeSafeTransaction, useForgeBuilder } from '../utils/forge'
+import { buildStakeAssetsToNode } from '../utils/builders'
+import type { Deployment } from '../utils/deployment'
 
 /**
  * Creates a proposal for the `StakeAssetsToNode` task
  *
+ * @param deployment
  * @param nodeId
  * @param assets
  * @param amounts
  * @returns
  */
-export async function stakeAssetsToNode(nodeId: string, assets: string[], amounts: string[]) {
-    if (!ADMIN) throw new Error('Env vars not set correctly.')
-
+export async function stakeAssetsToNode(deployment: Deployment, nodeId: string, assets: string[], amounts: string[]) {
     // Setup task params
     const task = 'LTM_StakeAssetsToNode.s.sol:StakeAssetsToNode'
-    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : ADMIN
+    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : deployment.admin
     const sig = 'run(string,uint256,address[],uint256[])'
     const assetsParam = `[${assets.map((op) => `"${op}"`).join(',')}]`
     const amountsParam = `[${amounts.join(',')}]`
     const params = `${nodeId} ${assetsParam} ${amountsParam}`
 
-    // Simulate task and create transaction
-    const { stdout } = await execAsync(forgeCommand(task, sender, sig, params))
-    const safeTransactions = await createSafeTransactions(stdout)
+    // Build calls natively, or with the forge task if `proposals.builder` is `forge`, and create transactions
+    const calls = useForgeBuilder()
+        ? await forgeCalls(deployment, task, sender, sig, params)
+        : buildStakeAssetsToNode(deployment, nodeId, assets, amounts)
+    const safeTransactions = await createSafeTransactions(deployment, calls)
 
     // Propose transactions to multisig
     for (const safeTx of safeTransactions) {
@@ -35,6 +34,6 @@ export async function stakeAssetsToNode(nodeId: string, assets: string[], amount
             title: `Stake ${assets.length} Asset(s) To Node ${nodeId}`,
             description: `Proposal to stake a set of assets to a staker node via ${task}`
         }
-        await proposeSafeTransaction(safeTx, metadata)
+        await proposeSafeTransaction(deployment, safeTx, metadata, 'admin', [{ nodeId, assets, amounts }])
     }
 }
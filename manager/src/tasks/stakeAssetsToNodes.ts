@@ -1,10 +1,8 @@
 import 'dotenv/config'
 
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
-import { ADMIN, DEPLOYMENT, forgeCommand, createSafeTransactions, proposeSafeTransaction } from '../utils/forge'
-
-const execAsync = promisify(exec)
+import { DEPLOYMENT, createSafeTransactions, forgeCalls, proposeSafeTransaction, useForgeBuilder } from '../utils/forge'
+import { buildStakeAssetsToNodes } from '../utils/builders'
+import type { Deployment } from '../utils/deployment'
 
 export type NodeAllocation = {
     nodeId: string
@@ -15,23 +13,24 @@ export type NodeAllocation = {
 /**
  * Creates a proposal for the `StakeAssetsToNodes` task
  *
+ * @param deployment
  * @param allocations
  * @returns
  */
-export async function stakeAssetsToNodes(allocations: NodeAllocation[]) {
-    if (!ADMIN) throw new Error('Env vars not set correctly.')
-
+export async function stakeAssetsToNodes(deployment: Deployment, allocations: NodeAllocation[]) {
     // Setup task params
     const task = 'LTM_StakeAssetsToNodes.s.sol:StakeAssetsToNodes'
-    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : ADMIN
+    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : deployment.admin
     const sig = 'run(string,(uint256,address[],uint256[])[])'
     const params = `'[${allocations
         .map(({ nodeId, assets, amounts }) => `(${nodeId},[${assets.join(',')}],[${amounts.join(',')}])`)
         .join(',')}]'`
 
-    // Simulate task and create transaction
-    const { stdout } = await execAsync(forgeCommand(task, sender, sig, params))
-    const safeTransactions = await createSafeTransactions(stdout)
+    // Build calls natively, or with the forge task if `proposals.builder` is `forge`, and create transactions
+    const calls = useForgeBuilder()
+        ? await forgeCalls(deployment, task, sender, sig, params)
+        : buildStakeAssetsToNodes(deployment, allocations)
+    const safeTransactions = await createSafeTransactions(deployment, calls)
 
     // Propose transactions to multisig
     for (const safeTx of safeTransactions) {
@@ -39,6 +38,6 @@ export async function stakeAssetsToNodes(allocations: NodeAllocation[]) {
             title: `Stake Assets To ${allocations.length} Node(s)`,
             description: `Proposal to stake a set of assets to a set of staker node(s) via ${task}`
         }
-        await proposeSafeTransaction(safeTx, metadata)
+        await proposeSafeTransaction(deployment, safeTx, metadata, 'admin', allocations)
     }
 }
@@ -2,12 +2,17 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress } from 'viem/utils'
-import { apiKit, protocolKitOwnerAdmin } from '../../utils/safe'
-import { ADMIN, LIQUID_TOKEN_MANAGER_ADDRESS, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for `addToken` on `LiquidTokenManager`
  *
+ * @param deployment
  * @param tokenAddress
  * @param decimals
  * @param initialPrice
@@ -21,6 +26,7 @@ import { ADMIN, LIQUID_TOKEN_MANAGER_ADDRESS, proposeSafeTransaction } from '../
  * @returns
  */
 export async function addToken(
+    deployment: Deployment,
     tokenAddress: string,
     decimals: number,
     volatilityThreshold: string,
@@ -32,10 +38,8 @@ export async function addToken(
     fallbackFn: `0x${string}`
 ) {
     try {
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
-
         // Setup task params
-        const contractAddress = LIQUID_TOKEN_MANAGER_ADDRESS
+        const contractAddress = deployment.liquidTokenManager
         const abi = parseAbi(['function addToken(address,uint8,uint256,address,uint8,address,uint8,address,bytes4)'])
         const metadata = {
             title: `Add Token ${tokenAddress}`,
@@ -66,16 +70,17 @@ export async function addToken(
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(ADMIN))
-        const safeTransaction = await protocolKitOwnerAdmin.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.admin))
+        const protocolKit = await getProtocolKit(deployment.admin)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata)
+        await proposeSafeTransaction(deployment, safeTransaction, metadata)
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose addToken', error)
         return []
     }
 }
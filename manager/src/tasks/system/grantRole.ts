@@ -2,21 +2,24 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress, keccak256, toBytes } from 'viem/utils'
-import { apiKit, protocolKitOwnerAdmin } from '../../utils/safe'
-import { ADMIN, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for transferring a role using `grantRole` on an AccessControlUpgradeable contract
  *
+ * @param deployment
  * @param contractAddress
  * @param role
  * @param newAddress
  * @returns
  */
-export async function grantRole(contractAddress: string, role: string, newAddress: string) {
+export async function grantRole(deployment: Deployment, contractAddress: string, role: string, newAddress: string) {
     try {
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
-
         let roleHash: `0x${string}`
         if (role === 'DEFAULT_ADMIN_ROLE') {
             roleHash = '0x0000000000000000000000000000000000000000000000000000000000000000'
@@ -53,16 +56,17 @@ export async function grantRole(contractAddress: string, role: string, newAddres
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(ADMIN))
-        const safeTransaction = await protocolKitOwnerAdmin.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.admin))
+        const protocolKit = await getProtocolKit(deployment.admin)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata)
+        await proposeSafeTransaction(deployment, safeTransaction, metadata)
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose grantRole', error)
         return []
     }
 }
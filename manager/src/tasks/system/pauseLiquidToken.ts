@@ -2,20 +2,23 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress } from 'viem/utils'
-import { apiKit, protocolKitOwnerPauser } from '../../utils/safe'
-import { PAUSER, LIQUID_TOKEN_ADDRESS, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for `pause` on `LiquidToken`
  *
+ * @param deployment
  * @returns
  */
-export async function pauseLiquidToken() {
+export async function pauseLiquidToken(deployment: Deployment) {
     try {
-        if (!PAUSER) throw new Error('Env vars not set correctly.')
-
         // Setup task params
-        const contractAddress = LIQUID_TOKEN_ADDRESS
+        const contractAddress = deployment.liquidToken
         const metadata = {
             title: 'Pause Contract',
             description: 'Proposal to pause contract functionality via manual proposal'
@@ -36,16 +39,17 @@ export async function pauseLiquidToken() {
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(PAUSER))
-        const safeTransaction = await protocolKitOwnerPauser.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.pauser))
+        const protocolKit = await getProtocolKit(deployment.pauser)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata, 'pauser')
+        await proposeSafeTransaction(deployment, safeTransaction, metadata, 'pauser')
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose pauseLiquidToken', error)
         return []
     }
 }
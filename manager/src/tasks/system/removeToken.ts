@@ -2,21 +2,24 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress } from 'viem/utils'
-import { apiKit, protocolKitOwnerAdmin } from '../../utils/safe'
-import { ADMIN, LIQUID_TOKEN_MANAGER_ADDRESS, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for `removeToken` on `LiquidTokenManager`
  *
+ * @param deployment
  * @param tokenAddress
  * @returns
  */
-export async function removeToken(tokenAddress: string) {
+export async function removeToken(deployment: Deployment, tokenAddress: string) {
     try {
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
-
         // Setup task params
-        const contractAddress = LIQUID_TOKEN_MANAGER_ADDRESS
+        const contractAddress = deployment.liquidTokenManager
         const abi = parseAbi(['function removeToken(address)'])
         const metadata = {
             title: `Remove Token ${tokenAddress}`,
@@ -37,16 +40,17 @@ export async function removeToken(tokenAddress: string) {
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(ADMIN))
-        const safeTransaction = await protocolKitOwnerAdmin.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.admin))
+        const protocolKit = await getProtocolKit(deployment.admin)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata)
+        await proposeSafeTransaction(deployment, safeTransaction, metadata)
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose removeToken', error)
         return []
     }
 }
@@ -2,21 +2,30 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress, keccak256, toBytes } from 'viem/utils'
-import { apiKit, protocolKitOwnerAdmin } from '../../utils/safe'
-import { ADMIN, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
 import { getViemClient } from '../../utils/viemClient'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for revoking a role using `revokeRole` on an AccessControlUpgradeable contract
  *
+ * @param deployment
  * @param contractAddress
  * @param role
  * @param addressToRevoke
  * @returns
  */
-export async function revokeRole(contractAddress: string, role: string, addressToRevoke: string) {
+export async function revokeRole(
+    deployment: Deployment,
+    contractAddress: string,
+    role: string,
+    addressToRevoke: string
+) {
     try {
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
         const viemClient = getViemClient()
         const roleManagerAbi = parseAbi([
             'function getRoleMemberCount(bytes32) view returns (uint256)',
@@ -68,16 +77,17 @@ export async function revokeRole(contractAddress: string, role: string, addressT
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(ADMIN))
-        const safeTransaction = await protocolKitOwnerAdmin.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.admin))
+        const protocolKit = await getProtocolKit(deployment.admin)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata)
+        await proposeSafeTransaction(deployment, safeTransaction, metadata)
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose revokeRole', error)
         return []
     }
 }
@@ -2,21 +2,24 @@ import 'dotenv/config'
 
 import { OperationType } from '@safe-global/types-kit'
 import { encodeFunctionData, parseAbi, getAddress } from 'viem/utils'
-import { apiKit, protocolKitOwnerAdmin } from '../../utils/safe'
-import { ADMIN, TOKEN_REGISTRY_ORACLE_ADDRESS, proposeSafeTransaction } from '../../utils/forge'
+import { apiKit, getProtocolKit } from '../../utils/safe'
+import { proposeSafeTransaction } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('Manager')
 
 /**
  * Creates a proposal for `setPriceUpdateInterval` on `TokenRegistryOracle`
  *
+ * @param deployment
  * @param interval
  * @returns
  */
-export async function setPriceUpdateInterval(interval: bigint) {
+export async function setPriceUpdateInterval(deployment: Deployment, interval: bigint) {
     try {
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
-
         // Setup task params
-        const contractAddress = TOKEN_REGISTRY_ORACLE_ADDRESS
+        const contractAddress = deployment.tokenRegistryOracle
         const abi = parseAbi(['function setPriceUpdateInterval(uint256 interval)'])
         const metadata = {
             title: `Set Price Update Interval to ${interval.toString()}`,
@@ -37,16 +40,17 @@ export async function setPriceUpdateInterval(interval: bigint) {
         }
 
         // Create transaction
-        const nonce = Number(await apiKit.getNextNonce(ADMIN))
-        const safeTransaction = await protocolKitOwnerAdmin.createTransaction({
+        const nonce = Number(await apiKit.getNextNonce(deployment.admin))
+        const protocolKit = await getProtocolKit(deployment.admin)
+        const safeTransaction = await protocolKit.createTransaction({
             transactions: [metaTransactionData],
             options: { nonce }
         })
 
         // Propose transactions to multisig
-        await proposeSafeTransaction(safeTransaction, metadata)
+        await proposeSafeTransaction(deployment, safeTransaction, metadata)
     } catch (error) {
-        console.log('Error: ', error)
+        log.error('Failed to propose setPriceUpdateInterval', error)
         return []
     }
 }
@@ -1,29 +1,28 @@
 import 'dotenv/config'
 
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
-import { ADMIN, DEPLOYMENT, forgeCommand, createSafeTransactions, proposeSafeTransaction } from '../utils/forge'
-
-const execAsync = promisify(exec)
+import { DEPLOYMENT, createSafeTransactions, forgeCalls, proposeSafeTransaction, useForgeBuilder } from '../utils/forge'
+import { buildUndelegateNodes } from '../utils/builders'
+import type { Deployment } from '../utils/deployment'
 
 /**
  * Creates a proposal for the `UndelegateNodes` task
  *
+ * @param deployment
  * @param nodeIds
  * @returns
  */
-export async function undelegateNodes(nodeIds: string[]) {
-    if (!ADMIN) throw new Error('Env vars not set correctly.')
-
+export async function undelegateNodes(deployment: Deployment, nodeIds: string[]) {
     // Setup task params
     const task = 'LTM_UndelegateNodes.s.sol:UndelegateNodes'
-    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : ADMIN
+    const sender = DEPLOYMENT === 'local' ? '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' : deployment.admin
     const sig = 'run(string,uint256[])'
     const params = `[${nodeIds.join(',')}]`
 
-    // Simulate task and create transaction
-    const { stdout } = await execAsync(forgeCommand(task, sender, sig, params))
-    const safeTransactions = await createSafeTransactions(stdout)
+    // Build calls natively, or with the forge task if `proposals.builder` is `forge`, and create transactions
+    const calls = useForgeBuilder()
+        ? await forgeCalls(deployment, task, sender, sig, params)
+        : buildUndelegateNodes(deployment, nodeIds)
+    const safeTransactions = await createSafeTransactions(deployment, calls)
 
     // Propose transactions to multisig
     for (const safeTx of safeTransactions) {
@@ -31,6 +30,6 @@ export async function undelegateNodes(nodeIds: string[]) {
             title: `Undelegate ${nodeIds.length} Staker Node(s)`,
             description: `Proposal to undelegate a set of staker node(s) via ${task}`
         }
-        await proposeSafeTransaction(safeTx, metadata)
+        await proposeSafeTransaction(deployment, safeTx, metadata)
     }
 }
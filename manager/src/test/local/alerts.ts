@@ -0,0 +1,124 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { type Alert, formatAlert, resetAlerts, sendAlert } from '../../utils/alerts'
+import type { AlertsConfig } from '../../utils/config'
+
+// --- Alerts tests ---
+
+const ALERT: Alert = {
+    type: 'paused',
+    key: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    severity: 'critical',
+    title: 'LiquidToken paused',
+    message: 'LiquidToken 0x5FbDB2315678afecb367f032d93F642f64180aa3 is paused'
+}
+
+/**
+ * Test script for the Slack, Discord and JSON webhook payloads
+ *
+ */
+export async function testFormatAlert() {
+    const slack = formatAlert(ALERT, 'slack')
+    const discord = formatAlert(ALERT, 'discord')
+    const json = formatAlert(ALERT, 'json')
+
+    const passing =
+        slack.text === `🚨 *${ALERT.title}*\n${ALERT.message}` &&
+        discord.content === `🚨 **${ALERT.title}**\n${ALERT.message}` &&
+        json.type === 'paused' &&
+        json.key === ALERT.key &&
+        typeof json.timestamp === 'string'
+
+    console.log('[Test] formatAlert: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for sending alerts to subscribed webhooks, dropping duplicates and alerts over the rate limit
+ *
+ */
+export async function testSendAlert() {
+    const received: { path: string; body: Record<string, unknown> }[] = []
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => {
+            body += chunk
+        })
+        req.on('end', () => {
+            received.push({ path: req.url ?? '', body: JSON.parse(body) })
+            res.writeHead(200).end()
+        })
+    })
+
+    try {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        const config: AlertsConfig = {
+            webhooks: [
+                { url: `${url}/slack`, format: 'slack' },
+                { url: `${url}/json`, format: 'json', events: ['workflowFailed'] }
+            ],
+            dedupWindow: 60,
+            rateLimit: { max: 2, window: 60 },
+            unsignedProposalHours: 24
+        }
+
+        resetAlerts()
+        await sendAlert(ALERT, config)
+        await sendAlert(ALERT, config) // Duplicate
+        await sendAlert({ ...ALERT, type: 'workflowFailed', key: 'updatePrices' }, config)
+        await sendAlert({ ...ALERT, type: 'workflowFailed', key: 'stakeUnstakedAssets' }, config) // Over the Slack rate limit
+
+        const paths = received.map(({ path }) => path).sort()
+
+        const passing =
+            paths.join(',') === '/json,/json,/slack,/slack' &&
+            received.filter(({ path }) => path === '/json').every(({ body }) => body.type === 'workflowFailed')
+
+        console.log('[Test] sendAlert: ', passing ? 'passing ✅' : 'failing ❌')
+    } catch (error) {
+        console.log(error)
+    } finally {
+        server.close()
+        resetAlerts()
+    }
+}
+
+/**
+ * Test script for sending an alert again after no webhook received it
+ *
+ */
+export async function testSendAlertFailedDelivery() {
+    let requests = 0
+    const server = http.createServer((req, res) => {
+        req.resume()
+        req.on('end', () => {
+            requests++
+            res.writeHead(requests === 1 ? 500 : 200).end()
+        })
+    })
+
+    try {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        const config: AlertsConfig = {
+            webhooks: [{ url, format: 'json' }],
+            dedupWindow: 60,
+            rateLimit: { max: 10, window: 60 },
+            unsignedProposalHours: 24
+        }
+
+        resetAlerts()
+        await sendAlert(ALERT, config) // Fails
+        await sendAlert(ALERT, config) // Sent again
+        await sendAlert(ALERT, config) // Duplicate
+
+        console.log('[Test] sendAlert (failed delivery): ', requests === 2 ? 'passing ✅' : 'failing ❌')
+    } catch (error) {
+        console.log(error)
+    } finally {
+        server.close()
+        resetAlerts()
+    }
+}
@@ -0,0 +1,97 @@
+import 'dotenv/config'
+
+import { DEPLOYMENT, NETWORK, forgeCalls } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
+import {
+    type TaskCall,
+    buildCreateStakerNodes,
+    buildDelegateNodes,
+    buildStakeAssetsToNode,
+    buildStakeAssetsToNodes
+} from '../../utils/builders'
+
+// --- Native builder tests ---
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+/**
+ * Test script for checking that the native builders produce the same calls as the forge tasks
+ *
+ * @param deployment
+ */
+export async function testBuildersMatchForge(deployment: Deployment) {
+    try {
+        if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
+
+        const operator = '0x5accc90436492f24e6af278569691e2c942a676d'
+        const stEthAddress =
+            NETWORK === 'mainnet'
+                ? '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84'
+                : '0x3f1c547b21f65e10480de3ad8e19faac46c95034'
+
+        const cases: [string, TaskCall[], TaskCall[]][] = [
+            [
+                'createStakerNodes',
+                await buildCreateStakerNodes(deployment, 2),
+                await forgeCalls(
+                    deployment,
+                    'SNC_CreateStakerNodes.s.sol:CreateStakerNodes',
+                    SENDER,
+                    'run(string,uint256)',
+                    '2'
+                )
+            ],
+            [
+                'delegateNodes',
+                buildDelegateNodes(deployment, ['3', '4'], [operator, operator], [], []),
+                await forgeCalls(
+                    deployment,
+                    'LTM_DelegateNodes.s.sol:DelegateNodes',
+                    SENDER,
+                    'run(string,uint256[],address[],(bytes,uint256)[],bytes32[])',
+                    `[3,4] ["${operator}","${operator}"] "[]" []`
+                )
+            ],
+            [
+                'stakeAssetsToNode',
+                buildStakeAssetsToNode(deployment, '2', [stEthAddress], ['3000000000000000000']),
+                await forgeCalls(
+                    deployment,
+                    'LTM_StakeAssetsToNode.s.sol:StakeAssetsToNode',
+                    SENDER,
+                    'run(string,uint256,address[],uint256[])',
+                    `2 ["${stEthAddress}"] [3000000000000000000]`
+                )
+            ],
+            [
+                'stakeAssetsToNodes',
+                buildStakeAssetsToNodes(deployment, [
+                    { nodeId: '0', assets: [stEthAddress], amounts: ['2500000000000000000'] },
+                    { nodeId: '1', assets: [stEthAddress], amounts: ['2500000000000000000'] }
+                ]),
+                await forgeCalls(
+                    deployment,
+                    'LTM_StakeAssetsToNodes.s.sol:StakeAssetsToNodes',
+                    SENDER,
+                    'run(string,(uint256,address[],uint256[])[])',
+                    `'[(0,[${stEthAddress}],[2500000000000000000]),(1,[${stEthAddress}],[2500000000000000000])]'`
+                )
+            ]
+        ]
+
+        for (const [name, native, forge] of cases) {
+            const passing =
+                native.length === forge.length &&
+                native.every(
+                    (call, i) =>
+                        call.to.toLowerCase() === forge[i].to.toLowerCase() &&
+                        call.value === forge[i].value &&
+                        call.data.toLowerCase() === forge[i].data.toLowerCase()
+                )
+
+            console.log(`[Test] ${name} native builder: `, passing ? 'passing ✅' : 'failing ❌')
+        }
+    } catch (error) {
+        console.log(error)
+    }
+}
@@ -0,0 +1,128 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { type OptionSpec, getFlagOptions, parseArg, readInputFile, resolveArgs } from '../../cli/args'
+import type { CommandSpec } from '../../cli/commands'
+import { throwsWith } from './helpers'
+
+// --- CLI args tests ---
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+
+const COMMAND: CommandSpec = {
+    name: 'test-command',
+    description: 'Command for testing args',
+    options: [
+        { key: 'nodeIds', type: 'uint[]', required: true, description: 'Node IDs' },
+        { key: 'operator', type: 'address', required: true, description: 'Operator' },
+        { key: 'count', type: 'uint', default: 1, description: 'Count' },
+        { key: 'proposeUndelegation', type: 'boolean', default: false, description: 'Propose undelegation' }
+    ],
+    run: async () => {}
+}
+
+/**
+ * Test script for parsing flag strings and input file values against their option types
+ *
+ */
+export async function testParseArg() {
+    const option = (type: OptionSpec['type']): OptionSpec => ({ key: 'testValue', type, description: '' })
+
+    const allocations = parseArg(
+        option('allocations'),
+        JSON.stringify([{ nodeId: 2, assets: [ADDRESS.toLowerCase()], amounts: ['1000'] }])
+    )
+
+    const passing =
+        parseArg(option('address'), ADDRESS.toLowerCase()) === ADDRESS &&
+        JSON.stringify(parseArg(option('uint[]'), '1, 2,3')) === '["1","2","3"]' &&
+        JSON.stringify(parseArg(option('uint[]'), [4, '5'])) === '["4","5"]' &&
+        parseArg(option('bigint'), '12345678901234567890') === 12345678901234567890n &&
+        parseArg(option('boolean'), 'false') === false &&
+        parseArg(option('bytes4'), '0x12345678') === '0x12345678' &&
+        JSON.stringify(allocations) === JSON.stringify([{ nodeId: '2', assets: [ADDRESS], amounts: ['1000'] }])
+
+    console.log('[Test] parseArg: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the errors thrown on arg values that do not match their option type
+ *
+ */
+export async function testParseArgInvalid() {
+    const option = (type: OptionSpec['type']): OptionSpec => ({ key: 'testValue', type, description: '' })
+
+    const passing =
+        throwsWith(() => parseArg(option('address'), '0x1234'), 'Invalid address for --test-value') &&
+        throwsWith(() => parseArg(option('uint[]'), '1,-2'), 'Invalid integer for --test-value[1]') &&
+        throwsWith(() => parseArg(option('bytes4'), '0x1234'), 'expected 4 bytes') &&
+        throwsWith(() => parseArg(option('boolean'), 'yes'), 'expected true or false') &&
+        throwsWith(
+            () => parseArg(option('allocations'), [{ nodeId: 0, assets: [ADDRESS], amounts: ['1', '2'] }]),
+            'Length mismatch'
+        )
+
+    console.log('[Test] parseArg (invalid values): ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for reading JSON and YAML input files, and flags taking precedence over the input file
+ *
+ */
+export async function testResolveArgs() {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manager-cli-'))
+
+    try {
+        const jsonFile = path.join(dir, 'args.json')
+        const yamlFile = path.join(dir, 'args.yaml')
+        const listFile = path.join(dir, 'list.json')
+        await fs.writeFile(jsonFile, JSON.stringify({ nodeIds: [1, 2], operator: ADDRESS, count: 3 }))
+        await fs.writeFile(yamlFile, `nodeIds:\n  - 7\noperator: '${ADDRESS}'\n`)
+        await fs.writeFile(listFile, '[1, 2]')
+
+        const json = await readInputFile(jsonFile)
+        const yaml = await readInputFile(yamlFile)
+        const overridden = await resolveArgs(COMMAND, { input: jsonFile, 'node-ids': '9' })
+        const defaulted = await resolveArgs(COMMAND, { input: yamlFile })
+
+        let listRejected = false
+        await readInputFile(listFile).catch((error) => {
+            listRejected = error.message.includes('must contain an object')
+        })
+
+        let missingRejected = false
+        await resolveArgs(COMMAND, { 'node-ids': '1' }).catch((error) => {
+            missingRejected = error.message === 'Missing required option --operator'
+        })
+
+        const passing =
+            json.count === 3 &&
+            yaml.nodeIds[0] === 7 &&
+            JSON.stringify(overridden.nodeIds) === '["9"]' &&
+            overridden.count === 3 &&
+            JSON.stringify(defaulted.nodeIds) === '["7"]' &&
+            defaulted.count === 1 &&
+            listRejected &&
+            missingRejected
+
+        console.log('[Test] resolveArgs: ', passing ? 'passing ✅' : 'failing ❌')
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true })
+    }
+}
+
+/**
+ * Test script for boolean options passed as bare flags, e.g. `--propose-undelegation`
+ *
+ */
+export async function testBooleanFlag() {
+    const flags = (args: string[]) => parseArgs({ args, strict: true, options: getFlagOptions(COMMAND.options) }).values
+
+    const set = await resolveArgs(COMMAND, flags(['--node-ids', '1', '--operator', ADDRESS, '--propose-undelegation']))
+    const unset = await resolveArgs(COMMAND, flags(['--node-ids', '1', '--operator', ADDRESS]))
+
+    const passing = set.proposeUndelegation === true && unset.proposeUndelegation === false
+
+    console.log('[Test] resolveArgs (boolean flag): ', passing ? 'passing ✅' : 'failing ❌')
+}
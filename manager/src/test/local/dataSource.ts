@@ -0,0 +1,55 @@
+import { toAssetBalances, toTokenInfos } from '../../utils/dataSource'
+
+// --- On-chain data source tests ---
+
+const STETH = '0x3F1c547b21f65e10480dE3ad8E19fAAC46C95034'
+const RETH = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
+const STETH_STRATEGY = '0x7D704507b76571a51d9caE8AdDAbBFd0ba0e63d3'
+const RETH_STRATEGY = '0x3A8fBdf9e77DFc25d09741f51d3E181b25d0c4E0'
+
+/**
+ * Test script for pairing each supported token with its `balanceAssets` and `balanceQueuedAssets` results
+ *
+ */
+export async function testToAssetBalances() {
+    const balances = toAssetBalances([STETH, RETH], [100n, 0n], [5n, 12345678901234567890n])
+
+    const passing =
+        JSON.stringify(balances) ===
+            JSON.stringify([
+                { asset: STETH, balance: '100', queuedBalance: '5' },
+                { asset: RETH, balance: '0', queuedBalance: '12345678901234567890' }
+            ]) && toAssetBalances([], [], []).length === 0
+
+    console.log('[Test] toAssetBalances: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for mapping the interleaved `getTokenInfo` and `getTokenStrategy` results to each token's info
+ *
+ */
+export async function testToTokenInfos() {
+    const tokens = toTokenInfos(
+        [STETH, RETH],
+        [
+            { decimals: 18n, pricePerUnit: 1000000000000000000n, volatilityThreshold: 0n },
+            STETH_STRATEGY,
+            { decimals: 6n, pricePerUnit: 1100000000000000000n, volatilityThreshold: 0n },
+            RETH_STRATEGY
+        ]
+    )
+
+    const passing =
+        JSON.stringify(tokens) ===
+            JSON.stringify([
+                {
+                    address: STETH,
+                    strategyAddress: STETH_STRATEGY,
+                    decimals: 18,
+                    pricePerUnit: '1000000000000000000'
+                },
+                { address: RETH, strategyAddress: RETH_STRATEGY, decimals: 6, pricePerUnit: '1100000000000000000' }
+            ]) && toTokenInfos([], []).length === 0
+
+    console.log('[Test] toTokenInfos: ', passing ? 'passing ✅' : 'failing ❌')
+}
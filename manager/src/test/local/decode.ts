@@ -0,0 +1,81 @@
+import { OperationType } from '@safe-global/types-kit'
+import { encodeFunctionData } from 'viem/utils'
+import { LAT_ABI, MULTI_SEND_ABI } from '../../utils/abis'
+import { type RawCall, decodeSafeCalls, packMultiSend, unpackMultiSend } from '../../utils/decode'
+
+// --- Calldata decoding tests ---
+
+const COORDINATOR = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const MANAGER = '0x3F1c547b21f65e10480dE3ad8E19fAAC46C95034'
+const TOKEN = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
+
+/**
+ * Test script for packing calls into `multiSend` bytes and unpacking them back unchanged
+ *
+ */
+export async function testPackMultiSend() {
+    const calls: RawCall[] = [
+        {
+            to: COORDINATOR,
+            value: '0',
+            data: encodeFunctionData({ abi: LAT_ABI, functionName: 'setMaxNodes', args: [10n] }),
+            operation: OperationType.Call
+        },
+        { to: TOKEN, value: '1000000000000000000', data: '0x', operation: OperationType.Call },
+        {
+            to: MANAGER,
+            value: '0',
+            data: encodeFunctionData({ abi: LAT_ABI, functionName: 'undelegateNodes', args: [[1n, 2n]] }),
+            operation: OperationType.DelegateCall
+        }
+    ]
+
+    const unpacked = unpackMultiSend(packMultiSend(calls))
+
+    const passing = JSON.stringify(unpacked) === JSON.stringify(calls) && unpackMultiSend('0x').length === 0
+
+    console.log('[Test] packMultiSend: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for decoding a `multiSend` Safe transaction into its inner calls, and single or unknown calls as is
+ *
+ */
+export async function testDecodeSafeCalls() {
+    const setMaxNodes = encodeFunctionData({ abi: LAT_ABI, functionName: 'setMaxNodes', args: [10n] })
+    const removeToken = encodeFunctionData({ abi: LAT_ABI, functionName: 'removeToken', args: [TOKEN] })
+
+    const batch = decodeSafeCalls({
+        to: '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D',
+        value: '0',
+        data: encodeFunctionData({
+            abi: MULTI_SEND_ABI,
+            functionName: 'multiSend',
+            args: [
+                packMultiSend([
+                    { to: COORDINATOR, value: '0', data: setMaxNodes, operation: OperationType.Call },
+                    { to: MANAGER, value: '0', data: removeToken, operation: OperationType.Call }
+                ])
+            ]
+        }),
+        operation: OperationType.DelegateCall
+    })
+    const single = decodeSafeCalls({ to: COORDINATOR, value: '0', data: setMaxNodes, operation: OperationType.Call })
+    const unknown = decodeSafeCalls({ to: TOKEN, value: '0', data: '0xdeadbeef', operation: OperationType.Call })
+
+    const passing =
+        batch.length === 2 &&
+        batch[0].to === COORDINATOR &&
+        batch[0].functionName === 'setMaxNodes' &&
+        batch[0].args?.[0] === 10n &&
+        batch[1].to === MANAGER &&
+        batch[1].functionName === 'removeToken' &&
+        batch[1].args?.[0] === TOKEN &&
+        single.length === 1 &&
+        single[0].functionName === 'setMaxNodes' &&
+        unknown.length === 1 &&
+        unknown[0].functionName === null &&
+        unknown[0].args === null
+
+    console.log('[Test] decodeSafeCalls: ', passing ? 'passing ✅' : 'failing ❌')
+}
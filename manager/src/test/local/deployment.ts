@@ -0,0 +1,69 @@
+import { parseDeployment } from '../../utils/deployment'
+import { throwsWith } from './helpers'
+
+// --- Deployment data tests ---
+
+const OUTPUT_FILE = '/local/deployment_data.json'
+
+// Deployment data in the shape written by the deploy scripts, with lowercase addresses
+const DEPLOYMENT_DATA = {
+    chainId: '31337',
+    proxyAddress: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+    contractDeployments: {
+        proxy: {
+            liquidTokenManager: { address: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512' },
+            stakerNodeCoordinator: { address: '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0' },
+            tokenRegistryOracle: { address: '0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9' }
+        }
+    },
+    roles: {
+        admin: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+        pauser: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+        priceUpdater: '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
+    },
+    tokens: {
+        '0': {
+            address: '0xae7ab96520de3a18e5e111b5eaab095312d7fe84',
+            strategy: '0x93c4b944d05dfe6df7645a86cd2206016c51564d'
+        }
+    }
+}
+
+/**
+ * Test script for parsing valid deployment data
+ *
+ */
+export async function testParseDeployment() {
+    const deployment = parseDeployment(DEPLOYMENT_DATA, OUTPUT_FILE)
+
+    const passing =
+        deployment.chainId === 31337 &&
+        deployment.liquidToken === '0x5FbDB2315678afecb367f032d93F642f64180aa3' &&
+        deployment.admin === '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' &&
+        deployment.avs === null &&
+        deployment.tokens.length === 1 &&
+        deployment.tokens[0].strategy === '0x93c4b944D05dfe6df7645A86cd2206016c51564D'
+
+    console.log('[Test] parseDeployment: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for rejecting deployment data with missing or malformed fields
+ *
+ */
+export async function testParseDeploymentInvalid() {
+    const missingPauser = structuredClone(DEPLOYMENT_DATA)
+    missingPauser.roles.pauser = ''
+
+    const malformedOracle = structuredClone(DEPLOYMENT_DATA)
+    malformedOracle.contractDeployments.proxy.tokenRegistryOracle.address = '0x1234'
+
+    const passing =
+        throwsWith(() => parseDeployment(missingPauser, OUTPUT_FILE), 'missing roles.pauser') &&
+        throwsWith(
+            () => parseDeployment(malformedOracle, OUTPUT_FILE),
+            'contractDeployments.proxy.tokenRegistryOracle.address is not an address'
+        )
+
+    console.log('[Test] parseDeployment (invalid data): ', passing ? 'passing ✅' : 'failing ❌')
+}
@@ -0,0 +1,33 @@
+import { chunkByGas } from '../../utils/forge'
+
+// --- Gas batching tests ---
+
+/**
+ * Test script for splitting calls into ordered batches, with a batch exactly at the gas limit kept whole
+ *
+ */
+export async function testChunkByGas() {
+    const chunks = chunkByGas([40n, 60n, 30n, 30n, 50n], (gas) => gas, 100n)
+    const empty = chunkByGas([], (gas: bigint) => gas, 100n)
+
+    const passing =
+        JSON.stringify(chunks.map((chunk) => chunk.map(Number))) === '[[40,60],[30,30],[50]]' && empty.length === 0
+
+    console.log('[Test] chunkByGas: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for a call over the gas limit getting a batch of its own
+ *
+ */
+export async function testChunkByGasOverLimit() {
+    const chunks = chunkByGas([20n, 150n, 30n], (gas) => gas, 100n)
+    const single = chunkByGas([150n], (gas) => gas, 100n)
+
+    const passing =
+        JSON.stringify(chunks.map((chunk) => chunk.map(Number))) === '[[20],[150],[30]]' &&
+        single.length === 1 &&
+        single[0][0] === 150n
+
+    console.log('[Test] chunkByGas over limit: ', passing ? 'passing ✅' : 'failing ❌')
+}
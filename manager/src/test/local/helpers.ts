@@ -0,0 +1,42 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { getConfig, resolveConfigPath } from '../../utils/config'
+import type { RunReport } from '../../utils/run'
+
+// --- Test helpers ---
+
+/**
+ * Reads and removes the run report written for a run, undefined if reports are disabled
+ *
+ * @param runId
+ * @returns
+ */
+export async function readRunReport(runId: string): Promise<RunReport | undefined> {
+    const { reports } = getConfig()
+    if (!reports.enabled) return undefined
+
+    const dir = resolveConfigPath(reports.dir)
+    const fileName = (await fs.readdir(dir)).find((file) => file.endsWith(`-${runId}.json`))
+    if (!fileName) return undefined
+
+    const report = JSON.parse(await fs.readFile(path.join(dir, fileName), 'utf8'))
+    await fs.rm(path.join(dir, fileName))
+
+    return report
+}
+
+/**
+ * Returns whether a function throws an error whose message includes the given message
+ *
+ * @param fn
+ * @param message
+ * @returns
+ */
+export function throwsWith(fn: () => unknown, message: string): boolean {
+    try {
+        fn()
+        return false
+    } catch (error) {
+        return error.message.includes(message)
+    }
+}
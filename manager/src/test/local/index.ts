@@ -18,36 +18,182 @@ import {
     testSetPriceUpdateInterval,
     testDisableEmergencyInterval
 } from './tasks'
+import { getOutputFile } from '../../utils/forge'
+import { loadDeployment } from '../../utils/deployment'
+import { testBuildersMatchForge } from './builders'
+import { testParseDeployment, testParseDeploymentInvalid } from './deployment'
+import { testParseRegistry, testParseRegistryInvalid } from './registry'
+import { testDecryptKeystore, testDecryptKeystoreWrongPassword } from './signers'
+import { testSendRelayerTransaction } from './relayer'
+import { testCheckOperatorHealthy, testCheckOperatorUnhealthy } from './operatorHealth'
+import { testCompareOperatorStrategies, testResolveOperatorStrategies } from './operatorStrategies'
+import { testToAssetBalances, testToTokenInfos } from './dataSource'
+import { testMonitoringServer, testMonitoringServerPortInUse, testRenderMetrics } from './metrics'
+import { testFormatAlert, testSendAlert, testSendAlertFailedDelivery } from './alerts'
+import { testParseLedger } from './ledger'
+import { testFindConflictingProposals } from './proposals'
+import { testChunkByGas, testChunkByGasOverLimit } from './forge'
+import { testDecodeSafeCalls, testPackMultiSend } from './decode'
+import { testFetchOffChainRate, testUpdatePricesFallback } from './prices'
+import { testGetRevertReason, testGetRevertReasonUnknown } from './simulate'
+import { testCheckStakeDeltas, testCheckStakeDeltasShortfall } from './verification'
+import { testCheckPrices, testParseLatTokenConfigs } from './tokenOnboarding'
+import { testPlanProvisioning, testPlanProvisioningMaxNodes, testPlanProvisioningPending } from './provisioning'
+import { testAllocateByWeight, testAllocateEvenly, testAllocateToTarget, testAllocateWithCap } from './policies'
+import { testApplyReserveBuffer, testApplyReserveLimits } from './reserve'
+import { testCreateLogger, testTracedFetch, testWithRun, testWithRunFailed } from './run'
+import { testBooleanFlag, testParseArg, testParseArgInvalid, testResolveArgs } from './cli'
+import { testGetRetryDelay, testRunWithRetry, testScheduleWorkflowSkipsOverlap } from './scheduler'
 
 /**
  * Tests whether transaction proposals generated from tasks are exactly as intended
- * Run all tests with `npm run test` from the `/manager` folder
+ * Needs the deployment data in `script/outputs`, e.g. from a local deployment
  *
  */
 async function testAllTasks() {
     try {
+        const deployment = await loadDeployment(getOutputFile())
+
         // Manager Tasks
-        await testCreateStakerNodes()
-        await testDelegateNodes()
-        await testStakeAssetsToNodes()
-        await testStakeAssetsToNode()
-        await testUndelegateNodes()
+        await testCreateStakerNodes(deployment)
+        await testDelegateNodes(deployment)
+        await testStakeAssetsToNodes(deployment)
+        await testStakeAssetsToNode(deployment)
+        await testUndelegateNodes(deployment)
 
         // System Tasks
-        await testAddToken()
-        await testPauseLiquidToken()
-        await testRemoveToken()
-        await testSetMaxNodes()
-        await testSetVolatilityThreshold()
-        await testUnpauseLiquidToken()
-        await testUpgradeStakerNodeImplementation()
-        await testUpdateAllPricesIfNeeded()
-        await testBatchUpdateRates()
-        await testGrantRole()
-        await testRevokeRole()
-        await testSetPriceUpdateInterval()
-        await testDisableEmergencyInterval()
-    } catch {}
+        await testAddToken(deployment)
+        await testPauseLiquidToken(deployment)
+        await testRemoveToken(deployment)
+        await testSetMaxNodes(deployment)
+        await testSetVolatilityThreshold(deployment)
+        await testUnpauseLiquidToken(deployment)
+        await testUpgradeStakerNodeImplementation(deployment)
+        await testUpdateAllPricesIfNeeded(deployment)
+        await testBatchUpdateRates(deployment)
+        await testGrantRole(deployment)
+        await testRevokeRole(deployment)
+        await testSetPriceUpdateInterval(deployment)
+        await testDisableEmergencyInterval(deployment)
+
+        // Native Builders
+        await testBuildersMatchForge(deployment)
+
+        // Defender Relayer
+        await testSendRelayerTransaction()
+    } catch (error) {
+        console.log('[Test] Failed to run task tests: ', error.message)
+        process.exitCode = 1
+    }
+}
+
+/**
+ * Tests the manager's modules that need no deployment
+ *
+ */
+async function testAllModules() {
+    try {
+        // CLI Args
+        await testParseArg()
+        await testParseArgInvalid()
+        await testResolveArgs()
+        await testBooleanFlag()
+
+        // Run Reports and Logging
+        await testWithRun()
+        await testWithRunFailed()
+        await testCreateLogger()
+        await testTracedFetch()
+
+        // Scheduler
+        await testGetRetryDelay()
+        await testRunWithRetry()
+        await testScheduleWorkflowSkipsOverlap()
+
+        // Deployment Data
+        await testParseDeployment()
+        await testParseDeploymentInvalid()
+
+        // LAT Registry
+        await testParseRegistry()
+        await testParseRegistryInvalid()
+
+        // Signers
+        await testDecryptKeystore()
+        await testDecryptKeystoreWrongPassword()
+
+        // Allocation Policies
+        await testAllocateEvenly()
+        await testAllocateByWeight()
+        await testAllocateToTarget()
+        await testAllocateWithCap()
+
+        // Reserve Policy
+        await testApplyReserveBuffer()
+        await testApplyReserveLimits()
+
+        // Node Provisioning
+        await testPlanProvisioning()
+        await testPlanProvisioningPending()
+        await testPlanProvisioningMaxNodes()
+
+        // Operator Health
+        await testCheckOperatorHealthy()
+        await testCheckOperatorUnhealthy()
+
+        // Operator Strategies
+        await testResolveOperatorStrategies()
+        await testCompareOperatorStrategies()
+
+        // On-chain Data Source
+        await testToAssetBalances()
+        await testToTokenInfos()
+
+        // Metrics
+        await testRenderMetrics()
+        await testMonitoringServer()
+        await testMonitoringServerPortInUse()
+
+        // Alerts
+        await testFormatAlert()
+        await testSendAlert()
+        await testSendAlertFailedDelivery()
+
+        // Calldata Decoding
+        await testPackMultiSend()
+        await testDecodeSafeCalls()
+
+        // Simulation
+        await testGetRevertReason()
+        await testGetRevertReasonUnknown()
+
+        // Price Updates
+        await testUpdatePricesFallback()
+        await testFetchOffChainRate()
+
+        // Gas Batching
+        await testChunkByGas()
+        await testChunkByGasOverLimit()
+
+        // Proposal Ledger
+        await testParseLedger()
+
+        // Pending Proposals
+        await testFindConflictingProposals()
+
+        // Stake Verification
+        await testCheckStakeDeltas()
+        await testCheckStakeDeltasShortfall()
+
+        // Token Onboarding
+        await testParseLatTokenConfigs()
+        await testCheckPrices()
+    } catch (error) {
+        console.log('[Test] Failed to run module tests: ', error.message)
+        process.exitCode = 1
+    }
 }
 
+// Run all tests with `npm run test` from the `/manager` folder
+await testAllModules()
 await testAllTasks()
@@ -0,0 +1,56 @@
+import { type LedgerEntry, parseLedger } from '../../utils/ledger'
+
+// --- Proposal ledger tests ---
+
+const SAFE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const HASH_A = `0x${'a'.repeat(64)}`
+const HASH_B = `0x${'b'.repeat(64)}`
+
+// Ledger entry as written when proposed
+const ENTRY: Omit<LedgerEntry, 'safeTxHash' | 'nonce'> = {
+    safeAddress: SAFE,
+    multisig: 'admin',
+    title: 'Create 1 Staker Nodes',
+    description: 'Proposal to create a set of staker nodes',
+    workflow: 'provisionNodes',
+    runId: 'a1b2c3d4',
+    transaction: { to: SAFE, value: '0', data: '0x', operation: 0 },
+    inputs: [{ to: SAFE, functionName: null, args: null }],
+    status: 'proposed',
+    proposedAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+}
+
+/**
+ * Test script for replaying proposals and status updates from the ledger file
+ *
+ */
+export async function testParseLedger() {
+    const lines = [
+        JSON.stringify({ safeTxHash: HASH_B, status: 'executed', updatedAt: '2025-01-01T00:01:00.000Z' }), // Before its entry
+        JSON.stringify({ ...ENTRY, safeTxHash: HASH_A, nonce: 4 }),
+        JSON.stringify({ ...ENTRY, safeTxHash: HASH_B, nonce: 5 }),
+        JSON.stringify({ safeTxHash: HASH_A, status: 'confirmed', updatedAt: '2025-01-01T01:00:00.000Z' }),
+        JSON.stringify({
+            safeTxHash: HASH_A,
+            status: 'executed',
+            updatedAt: '2025-01-01T02:00:00.000Z',
+            executionTxHash: `0x${'c'.repeat(64)}`
+        }),
+        '{"safeTxHash":"0x' // Cut short by a crash
+    ]
+
+    const entries = parseLedger(lines.join('\n'))
+    const a = entries.get(HASH_A)
+    const b = entries.get(HASH_B)
+
+    const passing =
+        entries.size === 2 &&
+        a?.status === 'executed' &&
+        a.executionTxHash === `0x${'c'.repeat(64)}` &&
+        a.nonce === 4 &&
+        a.workflow === 'provisionNodes' &&
+        b?.status === 'proposed'
+
+    console.log('[Test] parseLedger: ', passing ? 'passing ✅' : 'failing ❌')
+}
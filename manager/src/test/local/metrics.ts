@@ -0,0 +1,121 @@
+import type { AddressInfo } from 'node:net'
+import {
+    recordAssetBalances,
+    recordStakerNodes,
+    recordWorkflowResult,
+    renderMetrics,
+    resetMetrics
+} from '../../utils/metrics'
+import { startMonitoringServer } from '../../utils/monitoring'
+
+// --- Metrics tests ---
+
+const LIQUID_TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const ASSET = '0x3F1c547b21f65e10480dE3ad8E19fAAC46C95034'
+const OPERATOR = '0x5accc90436492f24e6af278569691e2c942a676d'
+
+/**
+ * Test script for rendering recorded metrics in the Prometheus text format
+ *
+ */
+export async function testRenderMetrics() {
+    resetMetrics()
+
+    recordWorkflowResult('updatePrices', false)
+    recordAssetBalances(LIQUID_TOKEN, 'idle', new Map([[ASSET, 12345678901234567890123n]]))
+    recordStakerNodes(LIQUID_TOKEN, [
+        { nodeId: 0, address: '0x0000000000000000000000000000000000000001', operatorDelegation: OPERATOR },
+        {
+            nodeId: 1,
+            address: '0x0000000000000000000000000000000000000002',
+            operatorDelegation: '0x0000000000000000000000000000000000000000'
+        }
+    ])
+
+    const lines = renderMetrics().split('\n')
+    const lat = LIQUID_TOKEN.toLowerCase()
+
+    const passing =
+        lines.includes('# TYPE lat_manager_workflow_success gauge') &&
+        lines.includes('lat_manager_workflow_success{workflow="updatePrices"} 0') &&
+        !lines.some((line) => line.startsWith('lat_manager_workflow_last_success_timestamp_seconds')) &&
+        lines.includes(
+            `lat_manager_asset_balance{lat="${lat}",asset="${ASSET.toLowerCase()}",state="idle"} 12345678901234567890123`
+        ) &&
+        lines.includes(`lat_manager_staker_nodes{lat="${lat}"} 2`) &&
+        lines.includes(`lat_manager_delegated_staker_nodes{lat="${lat}"} 1`)
+
+    resetMetrics()
+
+    console.log('[Test] renderMetrics: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for `/healthz` failing once a workflow run fails, and `/metrics` refreshing before it renders
+ *
+ */
+export async function testMonitoringServer() {
+    resetMetrics()
+
+    let collected = 0
+    const server = startMonitoringServer(async () => {
+        collected++
+        recordAssetBalances(LIQUID_TOKEN, 'staked', new Map([[ASSET, 1n]]))
+    }, 0)
+
+    try {
+        await new Promise((resolve) => server.once('listening', resolve))
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        recordWorkflowResult('stakeUnstakedAssets', true)
+        const healthy = await fetch(`${url}/healthz`)
+
+        recordWorkflowResult('updatePrices', false)
+        const failing = await fetch(`${url}/healthz`)
+        const failingBody = await failing.json()
+
+        const metrics = await (await fetch(`${url}/metrics`)).text()
+        await fetch(`${url}/metrics`)
+
+        const passing =
+            healthy.status === 200 &&
+            failing.status === 503 &&
+            failingBody.status === 'failing' &&
+            failingBody.workflows.updatePrices.success === false &&
+            metrics.includes('state="staked"} 1') &&
+            collected === 1 // Second scrape is within the refresh interval
+
+        console.log('[Test] monitoringServer: ', passing ? 'passing ✅' : 'failing ❌')
+    } catch (error) {
+        console.log(error)
+    } finally {
+        server.close()
+        resetMetrics()
+    }
+}
+
+/**
+ * Test script for starting the monitoring server on a port in use, which must not throw
+ *
+ */
+export async function testMonitoringServerPortInUse() {
+    const first = startMonitoringServer(async () => {}, 0)
+    let second: ReturnType<typeof startMonitoringServer> | undefined
+
+    try {
+        await new Promise((resolve) => first.once('listening', resolve))
+
+        second = startMonitoringServer(async () => {}, (first.address() as AddressInfo).port)
+        const error = await new Promise<NodeJS.ErrnoException>((resolve) => second?.once('error', resolve))
+
+        console.log(
+            '[Test] monitoringServer (port in use): ',
+            error.code === 'EADDRINUSE' && first.listening ? 'passing ✅' : 'failing ❌'
+        )
+    } catch (error) {
+        console.log(error)
+    } finally {
+        first.close()
+        second?.close()
+    }
+}
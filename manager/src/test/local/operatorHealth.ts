@@ -0,0 +1,58 @@
+import { type OperatorHealthInput, checkOperatorHealth } from '../../policies/operatorHealth'
+
+// --- Operator health tests ---
+
+const OPERATOR = '0x5accc90436492f24e6af278569691e2c942a676d'
+const AVS = '0x870679e138bcdf293b7ff14dd44b70fc97e12fc0'
+const STRATEGY_STETH = '0x7d704507b76571a51d9cae8addabbfd0ba0e63d3'
+const STRATEGY_RETH = '0x3a8fbdf9e77dfc25d09741f51d3e181b25d0c4e0'
+
+// Restakes both strategies its nodes hold, is registered to the LAT's AVS and was never slashed
+const HEALTHY: OperatorHealthInput = {
+    operator: OPERATOR,
+    nodeIds: [0, 2],
+    heldStrategies: [STRATEGY_STETH, STRATEGY_RETH],
+    restakedStrategies: [STRATEGY_STETH, STRATEGY_RETH],
+    avs: AVS,
+    registeredAvs: [AVS],
+    maxMagnitudes: new Map([
+        [STRATEGY_STETH, 10n ** 18n],
+        [STRATEGY_RETH, 10n ** 18n]
+    ])
+}
+
+/**
+ * Test script for a healthy operator
+ *
+ */
+export async function testCheckOperatorHealthy() {
+    const health = checkOperatorHealth(HEALTHY)
+
+    const passing = health.healthy && health.issues.length === 0 && health.nodeIds.join(',') === '0,2'
+
+    console.log('[Test] checkOperatorHealth: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for flagging an operator that stopped restaking, deregistered from the AVS and was slashed
+ *
+ */
+export async function testCheckOperatorUnhealthy() {
+    const health = checkOperatorHealth({
+        ...HEALTHY,
+        restakedStrategies: [STRATEGY_STETH],
+        registeredAvs: [],
+        maxMagnitudes: new Map([
+            [STRATEGY_STETH, 9n * 10n ** 17n],
+            [STRATEGY_RETH, 10n ** 18n]
+        ])
+    })
+
+    const types = health.issues.map((issue) => issue.type)
+    const passing =
+        !health.healthy &&
+        types.join(',') === 'strategyNotRestaked,avsDeregistered,slashed' &&
+        health.issues.some((issue) => issue.type === 'slashed' && issue.strategy === STRATEGY_STETH)
+
+    console.log('[Test] checkOperatorHealth (unhealthy operator): ', passing ? 'passing ✅' : 'failing ❌')
+}
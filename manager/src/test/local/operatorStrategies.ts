@@ -0,0 +1,63 @@
+import {
+    type OperatorStrategyState,
+    compareOperatorStrategies,
+    resolveOperatorStrategies
+} from '../../utils/operatorStrategies'
+
+// --- Operator strategies tests ---
+
+const OPERATOR_A = '0x5accc90436492f24e6af278569691e2c942a676d'
+const OPERATOR_B = '0x4cd2086e1d708e65db5d4f5712a9ca46ed4bbd0a'
+const STRATEGY_STETH = '0x7d704507b76571a51d9cae8addabbfd0ba0e63d3'
+const STRATEGY_RETH = '0x3a8fbdf9e77dfc25d09741f51d3e181b25d0c4e0'
+const STRATEGY_OTHER = '0x13760f50a9d7377e4f20cb8cf9e4c26586c658ff'
+
+/**
+ * Test script for resolving operator strategies from shares and AVS allocations
+ *
+ */
+export async function testResolveOperatorStrategies() {
+    const withoutAvs = resolveOperatorStrategies([
+        { operator: OPERATOR_A, sharedStrategies: [STRATEGY_STETH, STRATEGY_RETH], allocatedStrategies: null }
+    ])
+    const withAvs = resolveOperatorStrategies([
+        {
+            operator: OPERATOR_A,
+            sharedStrategies: [STRATEGY_STETH, STRATEGY_RETH],
+            allocatedStrategies: [STRATEGY_STETH]
+        },
+        { operator: OPERATOR_B, sharedStrategies: [STRATEGY_RETH], allocatedStrategies: [] }
+    ])
+
+    const passing =
+        withoutAvs.get(OPERATOR_A)?.join() === [STRATEGY_STETH, STRATEGY_RETH].join() &&
+        withAvs.get(OPERATOR_A)?.join() === STRATEGY_STETH &&
+        withAvs.get(OPERATOR_B)?.length === 0
+
+    console.log('[Test] resolveOperatorStrategies: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for reporting disagreements between on-chain operator shares and the EE API
+ *
+ */
+export async function testCompareOperatorStrategies() {
+    const states: OperatorStrategyState[] = [
+        { operator: OPERATOR_A, sharedStrategies: [STRATEGY_STETH, STRATEGY_RETH], allocatedStrategies: null },
+        { operator: OPERATOR_B, sharedStrategies: [STRATEGY_RETH], allocatedStrategies: null }
+    ]
+    const eeApiStrategies = new Map([
+        [OPERATOR_A, [STRATEGY_STETH, STRATEGY_RETH, STRATEGY_OTHER]], // Other strategies are not compared
+        [OPERATOR_B, [STRATEGY_STETH]]
+    ])
+
+    const disagreements = compareOperatorStrategies(states, eeApiStrategies, [STRATEGY_STETH, STRATEGY_RETH])
+
+    const passing =
+        disagreements.length === 1 &&
+        disagreements[0].operator === OPERATOR_B &&
+        disagreements[0].onlyOnChain.join() === STRATEGY_RETH &&
+        disagreements[0].onlyEeApi.join() === STRATEGY_STETH
+
+    console.log('[Test] compareOperatorStrategies: ', passing ? 'passing ✅' : 'failing ❌')
+}
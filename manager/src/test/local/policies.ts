@@ -0,0 +1,157 @@
+import type { NodeAllocation } from '../../tasks/stakeAssetsToNodes'
+import {
+    type AllocationInput,
+    allocateByWeight,
+    allocateEvenly,
+    allocateToTarget,
+    allocateWithCap
+} from '../../policies/allocation'
+
+// --- Allocation policy tests ---
+
+const STETH = '0x3f1c547b21f65e10480de3ad8e19faac46c95034'
+const RETH = '0x7322c24752f79c05ffd1e2a6fcb97020c1c264f1'
+const OPERATOR_A = '0x5accc90436492f24e6af278569691e2c942a676d'
+const OPERATOR_B = '0xdbed88d83176316fc46797b43adee927dc2ff2f5'
+
+// Two nodes delegated to Operator A (restakes stETH & rETH) and one to Operator B (restakes stETH only)
+const INPUT: Omit<AllocationInput, 'stakingAmounts'> = {
+    nodes: [
+        { nodeId: 0, address: '0x01', operatorDelegation: OPERATOR_A },
+        { nodeId: 1, address: '0x02', operatorDelegation: OPERATOR_A },
+        { nodeId: 2, address: '0x03', operatorDelegation: OPERATOR_B }
+    ],
+    operatorStrategies: new Map([
+        [OPERATOR_A, ['0xstrategy-steth', '0xstrategy-reth']],
+        [OPERATOR_B, ['0xstrategy-steth']]
+    ]),
+    tokenInfo: new Map([
+        [
+            STETH,
+            {
+                address: STETH,
+                strategyAddress: '0xstrategy-steth',
+                decimals: 18,
+                pricePerUnit: '1000000000000000000'
+            }
+        ],
+        [RETH, { address: RETH, strategyAddress: '0xstrategy-reth', decimals: 18, pricePerUnit: '2000000000000000000' }]
+    ])
+}
+
+/**
+ * Test script for the even allocation policy
+ *
+ */
+export async function testAllocateEvenly() {
+    const allocations = allocateEvenly({
+        ...INPUT,
+        stakingAmounts: [
+            { asset: STETH, amount: 300n },
+            { asset: RETH, amount: 100n }
+        ]
+    })
+
+    const passing = compareAllocations(allocations, {
+        '0': { [STETH]: 100n, [RETH]: 50n },
+        '1': { [STETH]: 100n, [RETH]: 50n },
+        '2': { [STETH]: 100n }
+    })
+
+    console.log('[Test] allocateEvenly: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the weighted allocation policy
+ *
+ */
+export async function testAllocateByWeight() {
+    // Operator A's share is split across its two nodes
+    const allocations = allocateByWeight(
+        { ...INPUT, stakingAmounts: [{ asset: STETH, amount: 400n }] },
+        {
+            [OPERATOR_A]: 1,
+            [OPERATOR_B]: 3
+        }
+    )
+
+    const passing = compareAllocations(allocations, {
+        '0': { [STETH]: 50n },
+        '1': { [STETH]: 50n },
+        '2': { [STETH]: 300n }
+    })
+
+    console.log('[Test] allocateByWeight: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the fill-to-target allocation policy
+ *
+ */
+export async function testAllocateToTarget() {
+    // Node 0 holds 100 stETH, node 1 holds 50 rETH (100 in unit of account), node 2 holds nothing
+    const allocations = allocateToTarget({
+        ...INPUT,
+        stakingAmounts: [{ asset: STETH, amount: 250n }],
+        nodeBalances: new Map([
+            [0, new Map([[STETH, 100n]])],
+            [1, new Map([[RETH, 50n]])]
+        ])
+    })
+
+    const passing = compareAllocations(allocations, {
+        '0': { [STETH]: 50n },
+        '1': { [STETH]: 50n },
+        '2': { [STETH]: 150n }
+    })
+
+    console.log('[Test] allocateToTarget: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the capped-per-node allocation policy
+ *
+ */
+export async function testAllocateWithCap() {
+    // rETH is worth 2x, so nodes 0 and 1 can only take 40 rETH after 40 stETH each
+    const allocations = allocateWithCap(
+        {
+            ...INPUT,
+            stakingAmounts: [
+                { asset: STETH, amount: 120n },
+                { asset: RETH, amount: 200n }
+            ]
+        },
+        120n
+    )
+
+    const passing = compareAllocations(allocations, {
+        '0': { [STETH]: 40n, [RETH]: 40n },
+        '1': { [STETH]: 40n, [RETH]: 40n },
+        '2': { [STETH]: 40n }
+    })
+
+    console.log('[Test] allocateWithCap: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Compares allocations against the expected amount per node and asset
+ *
+ * @param allocations
+ * @param expected
+ * @returns
+ */
+function compareAllocations(allocations: NodeAllocation[], expected: Record<string, Record<string, bigint>>) {
+    if (allocations.length !== Object.keys(expected).length) return false
+
+    for (const allocation of allocations) {
+        const expectedAssets = expected[allocation.nodeId]
+        if (!expectedAssets || allocation.assets.length !== Object.keys(expectedAssets).length) return false
+
+        for (const [index, asset] of allocation.assets.entries()) {
+            if (expectedAssets[asset] !== BigInt(allocation.amounts[index])) return false
+        }
+    }
+
+    return true
+}
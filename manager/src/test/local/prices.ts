@@ -0,0 +1,101 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { ContractFunctionExecutionError, ContractFunctionRevertedError, HttpRequestError, RawContractError } from 'viem'
+import { encodeErrorResult, parseAbi } from 'viem/utils'
+import { LAT_ERRORS } from '../../utils/abis'
+import { fetchOffChainRate } from '../../utils/coinMarketCap'
+import { isRevert } from '../../utils/simulate'
+
+// --- Price update tests ---
+
+const ORACLE = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+
+/**
+ * Test script for falling back to `batchUpdateRates` only when `updateAllPricesIfNeeded` reverts,
+ * and not when the node cannot be reached
+ *
+ */
+export async function testUpdatePricesFallback() {
+    const abi = [...LAT_ERRORS, ...parseAbi(['function updateAllPricesIfNeeded() returns (bool)'])]
+    const reverted = new ContractFunctionExecutionError(
+        new ContractFunctionRevertedError({
+            abi,
+            functionName: 'updateAllPricesIfNeeded',
+            data: encodeErrorResult({ abi, errorName: 'PriceUpdateFailed' }),
+            cause: new RawContractError({ data: encodeErrorResult({ abi, errorName: 'PriceUpdateFailed' }) })
+        }),
+        { abi, functionName: 'updateAllPricesIfNeeded', contractAddress: ORACLE }
+    )
+    const unreachable = new ContractFunctionExecutionError(
+        new HttpRequestError({ url: 'http://127.0.0.1:8545', details: 'fetch failed' }),
+        { abi, functionName: 'updateAllPricesIfNeeded', contractAddress: ORACLE }
+    )
+
+    const passing = isRevert(reverted) && !isRevert(unreachable) && !isRevert(new Error('execution reverted'))
+
+    console.log('[Test] updatePrices fallback: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for reading a token's ETH price from the active CoinMarketCap listing of its symbol
+ *
+ */
+export async function testFetchOffChainRate() {
+    const env = { key: process.env.CMC_API_KEY, url: process.env.CMC_API_URL }
+    const apiKeys: (string | undefined)[] = []
+    const server = http.createServer((req, res) => {
+        apiKeys.push(req.headers['x-cmc_pro_api_key'] as string | undefined)
+        const symbol = new URL(req.url ?? '', 'http://localhost').searchParams.get('symbol')
+
+        if (symbol === 'FAIL') {
+            res.writeHead(500).end()
+            return
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+            JSON.stringify({
+                data: {
+                    STETH: [
+                        { symbol: 'STETH', is_active: 0, quote: { ETH: { price: 5 } } },
+                        { symbol: 'STETH', is_active: 1, quote: { ETH: { price: 0.75 } } }
+                    ],
+                    DEAD: [{ symbol: 'DEAD', is_active: 0, quote: { ETH: { price: 1 } } }]
+                }
+            })
+        )
+    })
+
+    try {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        process.env.CMC_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        process.env.CMC_API_KEY = ''
+        const noKey = await fetchOffChainRate('stETH').catch((error) => error.message)
+
+        process.env.CMC_API_KEY = 'test-key'
+        const rate = await fetchOffChainRate('stETH')
+        const inactive = await fetchOffChainRate('DEAD').catch((error) => error.message)
+        const failed = await fetchOffChainRate('FAIL').catch((error) => error.message)
+
+        const passing =
+            noKey === 'No on-chain price for stETH and CMC_API_KEY is not set' &&
+            rate === 750000000000000000n &&
+            inactive === 'No CoinMarketCap price for DEAD' &&
+            failed === 'Failed to fetch FAIL price: 500 Internal Server Error' &&
+            apiKeys.length === 3 &&
+            apiKeys.every((apiKey) => apiKey === 'test-key')
+
+        console.log('[Test] fetchOffChainRate: ', passing ? 'passing ✅' : 'failing ❌')
+    } finally {
+        server.close()
+        restoreEnv('CMC_API_KEY', env.key)
+        restoreEnv('CMC_API_URL', env.url)
+    }
+}
+
+// --- Helper functions ---
+
+function restoreEnv(name: string, value: string | undefined) {
+    if (value === undefined) delete process.env[name]
+    else process.env[name] = value
+}
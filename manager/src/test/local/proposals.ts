@@ -0,0 +1,86 @@
+import type { DecodedCall } from '../../utils/decode'
+import type { Deployment } from '../../utils/deployment'
+import { type PendingProposal, type SafeQueue, findConflictingProposals } from '../../utils/proposals'
+
+// --- Pending proposals tests ---
+
+const DEPLOYMENT: Deployment = {
+    outputFile: '/local/deployment_data.json',
+    chainId: 31337,
+    liquidToken: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    liquidTokenManager: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    stakerNodeCoordinator: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+    tokenRegistryOracle: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+    admin: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    pauser: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    priceUpdater: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    avs: null,
+    tokens: []
+}
+
+const EXTERNAL = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+
+/**
+ * Test script for finding the pending proposals of both multisigs that call the given functions on the LAT contracts
+ * Calls to other contracts, and calls that could not be decoded, never conflict
+ *
+ */
+export async function testFindConflictingProposals() {
+    const admin: SafeQueue = {
+        multisig: 'admin',
+        safeAddress: DEPLOYMENT.admin,
+        currentNonce: 4,
+        threshold: 2,
+        nonceGaps: [],
+        proposals: [
+            proposal('admin', 4, [call(DEPLOYMENT.stakerNodeCoordinator, 'setMaxNodes')]),
+            // Batched, with the conflicting call second and a lowercase target
+            proposal('admin', 5, [
+                call(DEPLOYMENT.stakerNodeCoordinator, 'createStakerNode'),
+                call(DEPLOYMENT.liquidTokenManager.toLowerCase(), 'stakeAssetsToNodes')
+            ]),
+            proposal('admin', 6, [call(EXTERNAL, 'stakeAssetsToNodes')]),
+            proposal('admin', 7, [call(DEPLOYMENT.liquidTokenManager, null)])
+        ]
+    }
+    const pauser: SafeQueue = {
+        multisig: 'pauser',
+        safeAddress: DEPLOYMENT.pauser,
+        currentNonce: 1,
+        threshold: 1,
+        nonceGaps: [],
+        proposals: [proposal('pauser', 1, [call(DEPLOYMENT.liquidToken, 'pause')])]
+    }
+
+    const conflicts = findConflictingProposals(DEPLOYMENT, [admin, pauser], ['stakeAssetsToNodes', 'pause'])
+    const none = findConflictingProposals(DEPLOYMENT, [admin, pauser], ['undelegateNodes'])
+
+    const passing =
+        conflicts.map(({ multisig, nonce }) => `${multisig}:${nonce}`).join(',') === 'admin:5,pauser:1' &&
+        none.length === 0 &&
+        findConflictingProposals(DEPLOYMENT, [], ['pause']).length === 0
+
+    console.log('[Test] findConflictingProposals: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+// --- Helper functions ---
+
+function proposal(multisig: 'admin' | 'pauser', nonce: number, calls: DecodedCall[]): PendingProposal {
+    return {
+        multisig,
+        safeAddress: multisig === 'admin' ? DEPLOYMENT.admin : DEPLOYMENT.pauser,
+        nonce,
+        safeTxHash: `0x${nonce.toString(16).padStart(64, '0')}`,
+        title: null,
+        confirmations: 0,
+        threshold: 1,
+        submissionDate: '2024-01-01T00:00:00.000Z',
+        age: 0,
+        calls,
+        indexed: true
+    }
+}
+
+function call(to: string, functionName: string | null): DecodedCall {
+    return { to, value: '0', data: '0x', operation: 0, functionName, args: functionName ? [] : null }
+}
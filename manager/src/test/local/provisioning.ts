@@ -0,0 +1,85 @@
+import { type ProvisioningInput, planProvisioning } from '../../policies/provisioning'
+
+// --- Node provisioning tests ---
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const OPERATOR_A = '0x5accc90436492f24e6af278569691e2c942a676d'
+const OPERATOR_B = '0xdbed88d83176316fc46797b43adee927dc2ff2f5'
+const OPERATOR_C = '0x4cd2086e1d708e65db5d4f5712a9ca46ed4bbd0a'
+const OPERATOR_D = '0x5cd6e0d5e4b1bf5d8a8a7d39e8a4e6e0c1a8c4f1'
+
+// Node 0 delegated to Operator A and node 1 not delegated
+const INPUT: ProvisioningInput = {
+    operators: [OPERATOR_A, OPERATOR_B, OPERATOR_C],
+    nodes: [
+        { nodeId: 0, operatorDelegation: OPERATOR_A },
+        { nodeId: 1, operatorDelegation: ZERO_ADDRESS }
+    ],
+    maxNodes: 10,
+    pendingCreates: 0,
+    pendingDelegations: []
+}
+
+/**
+ * Test script for delegating free nodes and creating nodes for the remaining operators
+ *
+ */
+export async function testPlanProvisioning() {
+    const plan = planProvisioning(INPUT)
+
+    const passing =
+        plan.delegations.length === 1 &&
+        plan.delegations[0].nodeId === 1 &&
+        plan.delegations[0].operator === OPERATOR_B &&
+        plan.create === 1 &&
+        plan.waiting.length === 1 &&
+        plan.waiting[0] === OPERATOR_C &&
+        plan.unserved.length === 0
+
+    console.log('[Test] planProvisioning: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for not proposing creations and delegations that are already pending
+ *
+ */
+export async function testPlanProvisioningPending() {
+    const plan = planProvisioning({
+        ...INPUT,
+        pendingCreates: 1,
+        pendingDelegations: [{ nodeId: 1, operator: OPERATOR_B }]
+    })
+
+    const passing =
+        plan.delegations.length === 0 &&
+        plan.create === 0 &&
+        plan.waiting[0] === OPERATOR_C &&
+        plan.unserved.length === 0
+
+    console.log('[Test] planProvisioning (pending proposals): ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for staying within `maxNodes`
+ *
+ */
+export async function testPlanProvisioningMaxNodes() {
+    const plan = planProvisioning({
+        ...INPUT,
+        operators: [OPERATOR_A, OPERATOR_B, OPERATOR_C, OPERATOR_D],
+        nodes: [
+            { nodeId: 0, operatorDelegation: OPERATOR_A },
+            { nodeId: 1, operatorDelegation: OPERATOR_B }
+        ],
+        maxNodes: 3
+    })
+
+    const passing =
+        plan.delegations.length === 0 &&
+        plan.create === 1 &&
+        plan.waiting[0] === OPERATOR_C &&
+        plan.unserved.length === 1 &&
+        plan.unserved[0] === OPERATOR_D
+
+    console.log('[Test] planProvisioning (max nodes): ', passing ? 'passing ✅' : 'failing ❌')
+}
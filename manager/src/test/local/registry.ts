@@ -0,0 +1,105 @@
+import { parseRegistry } from '../../utils/registry'
+import { throwsWith } from './helpers'
+
+// --- LAT registry tests ---
+
+const REGISTRY_FILE = 'lats.json'
+
+/**
+ * Test script for parsing a valid LAT registry
+ *
+ */
+export async function testParseRegistry() {
+    const lats = parseRegistry(
+        {
+            lats: [
+                {
+                    name: 'xeigenda-eth',
+                    deployment: { repo: 'EigenExplorer/lat-deployments/mainnet/xeigenda-eth' },
+                    safes: {
+                        admin: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+                        pauser: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+                    },
+                    allocation: { type: 'fillToTarget' },
+                    dataSource: 'onChain'
+                },
+                {
+                    name: 'xlagrange',
+                    enabled: false,
+                    deployment: { outputFile: '/local/deployment_data.json' },
+                    safes: {
+                        admin: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+                        pauser: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+                    }
+                }
+            ]
+        },
+        REGISTRY_FILE
+    )
+
+    const passing =
+        lats.length === 2 &&
+        lats[0].enabled &&
+        lats[0].deployment.outputFile.endsWith('/xeigenda-eth/deployment_data.json') &&
+        lats[0].safes.admin === '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' &&
+        lats[0].allocation?.type === 'fillToTarget' &&
+        lats[0].dataSource === 'onChain' &&
+        !lats[1].enabled &&
+        lats[1].dataSource === undefined &&
+        lats[1].deployment.repo === undefined &&
+        lats[1].deployment.outputFile === '/local/deployment_data.json'
+
+    console.log('[Test] parseRegistry: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for rejecting a LAT registry with duplicate or malformed entries
+ *
+ */
+export async function testParseRegistryInvalid() {
+    const safes = {
+        admin: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+        pauser: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+    }
+
+    const passing =
+        throwsWith(
+            () =>
+                parseRegistry(
+                    {
+                        lats: [
+                            { name: 'xeigenda', safes },
+                            { name: 'xeigenda', safes }
+                        ]
+                    },
+                    REGISTRY_FILE
+                ),
+            'lats.1.name is a duplicate'
+        ) &&
+        throwsWith(
+            () => parseRegistry({ lats: [{ name: 'xeigenda', safes: { admin: safes.admin } }] }, REGISTRY_FILE),
+            'lats.0.safes.pauser is not an address'
+        ) &&
+        throwsWith(
+            () => parseRegistry({ lats: [{ name: 'xeigenda', safes, allocation: { type: 'random' } }] }, REGISTRY_FILE),
+            'lats.0.allocation is invalid'
+        ) &&
+        throwsWith(
+            () => parseRegistry({ lats: [{ name: 'xeigenda', safes, dataSource: 'subgraph' }] }, REGISTRY_FILE),
+            'lats.0.dataSource is not one of latApi, onChain'
+        ) &&
+        throwsWith(
+            () =>
+                parseRegistry(
+                    {
+                        lats: [
+                            { name: 'xeigenda', safes, reserve: { buffer: { type: 'percentage', percentage: 150 } } }
+                        ]
+                    },
+                    REGISTRY_FILE
+                ),
+            'lats.0.reserve is invalid'
+        )
+
+    console.log('[Test] parseRegistry (invalid registry): ', passing ? 'passing ✅' : 'failing ❌')
+}
@@ -0,0 +1,131 @@
+import 'dotenv/config'
+
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { Hex } from 'viem'
+import { parseAccount } from 'viem/accounts'
+import { DEPLOYMENT } from '../../utils/forge'
+import { getRelayerAddress, sendRelayerTransaction } from '../../utils/relayer'
+import { getChain, getViemClient, getWalletClient } from '../../utils/viemClient'
+
+// --- Defender Relayer tests ---
+
+const RELAYER_ADDRESS = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' // Anvil acc #2
+const FAILING_ADDRESS = '0x000000000000000000000000000000000000dEaD' // Txs to this address fail on the stand-in
+
+/**
+ * Test script for sending transactions through the Defender Relayer and tracking them until mined or failed
+ *
+ */
+export async function testSendRelayerTransaction() {
+    const standIn = await startRelayerStandIn()
+
+    try {
+        if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
+
+        const receipt = await sendRelayerTransaction({
+            to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            data: '0x',
+            value: 1n
+        })
+
+        const passing =
+            (await getRelayerAddress()) === RELAYER_ADDRESS &&
+            receipt.status === 'success' &&
+            receipt.from.toLowerCase() === RELAYER_ADDRESS.toLowerCase() &&
+            standIn.polls > 0
+
+        console.log('[Test] sendRelayerTransaction: ', passing ? 'passing ✅' : 'failing ❌')
+
+        let failedPassing = false
+        try {
+            await sendRelayerTransaction({ to: FAILING_ADDRESS, data: '0x', gas: 21_000n })
+        } catch (error) {
+            failedPassing = /^Relayer tx \S+ failed$/.test(error.message)
+        }
+
+        console.log('[Test] sendRelayerTransaction (failed tx): ', failedPassing ? 'passing ✅' : 'failing ❌')
+    } catch (error) {
+        console.log(error)
+    } finally {
+        standIn.server.close()
+    }
+}
+
+// --- Helper functions ---
+
+/**
+ * Starts a local stand-in for the Defender relayer API on a random port and points the SDK to it
+ * The SDK keeps the API URL it first logged in with, so a single stand-in serves all relayer tests
+ * Transactions are sent to the local node from the relayer address, which must be unlocked, and are
+ * reported as pending on creation and mined once they have a receipt
+ *
+ * @returns
+ */
+async function startRelayerStandIn() {
+    const txs = new Map<string, { transactionId: string; hash: string; status: string }>()
+    const standIn = { server: http.createServer(), polls: 0 }
+
+    standIn.server.on('request', async (req, res) => {
+        let body = ''
+        for await (const chunk of req) body += chunk
+
+        const respond = (status: number, data: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify(data))
+        }
+
+        try {
+            const route = `${req.method} ${req.url?.replace(/\/+/g, '/')}`
+
+            if (route === 'POST /auth/login') return respond(200, { accessToken: 'local', refreshToken: 'local' })
+            if (route === 'GET /relayers/self') return respond(200, { relayerId: 'local', address: RELAYER_ADDRESS })
+
+            if (route === 'POST /relayers/self/txs') {
+                const payload = JSON.parse(body)
+                const transactionId = `local-${txs.size}`
+                const tx = { transactionId, hash: '0x', status: 'pending', ...payload }
+
+                if (payload.to === FAILING_ADDRESS) {
+                    tx.status = 'failed'
+                } else {
+                    const account = parseAccount(RELAYER_ADDRESS)
+                    tx.hash = await getWalletClient(account).sendTransaction({
+                        account,
+                        chain: getChain(),
+                        to: payload.to,
+                        data: payload.data,
+                        value: BigInt(payload.value),
+                        gas: BigInt(payload.gasLimit)
+                    })
+                }
+
+                txs.set(transactionId, tx)
+                return respond(200, tx)
+            }
+
+            const tx = txs.get(route.replace('GET /relayers/self/txs/', ''))
+            if (tx) {
+                standIn.polls++
+                const receipt = await getViemClient()
+                    .getTransactionReceipt({ hash: tx.hash as Hex })
+                    .catch(() => null)
+                if (receipt) tx.status = 'mined'
+
+                return respond(200, tx)
+            }
+
+            respond(404, { message: `No stand-in route for ${route}` })
+        } catch (error) {
+            respond(500, { message: error.message })
+        }
+    })
+
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve))
+
+    process.env.DEFENDER_API_URL = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}/`
+    process.env.DEFENDER_RELAYER_API_KEY ||= 'local'
+    process.env.DEFENDER_RELAYER_API_SECRET ||= 'local'
+
+    return standIn
+}
@@ -0,0 +1,84 @@
+import { type ReserveDecision, type ReserveInput, applyReservePolicy } from '../../policies/reserve'
+
+// --- Reserve policy tests ---
+
+const STETH = '0x3f1c547b21f65e10480de3ad8e19faac46c95034'
+const RETH = '0x7322c24752f79c05ffd1e2a6fcb97020c1c264f1'
+
+// 300 stETH at 1 ETH and 100 rETH at 2 ETH unstaked, worth 500 in total
+const INPUT: ReserveInput = {
+    balances: [
+        { asset: STETH, balance: 300n },
+        { asset: RETH, balance: 100n }
+    ],
+    tokenInfo: new Map([
+        [
+            STETH,
+            {
+                address: STETH,
+                strategyAddress: '0xstrategy-steth',
+                decimals: 18,
+                pricePerUnit: '1000000000000000000'
+            }
+        ],
+        [RETH, { address: RETH, strategyAddress: '0xstrategy-reth', decimals: 18, pricePerUnit: '2000000000000000000' }]
+    ])
+}
+
+/**
+ * Test script for holding back a buffer split across assets by value
+ *
+ */
+export async function testApplyReserveBuffer() {
+    const percentage = applyReservePolicy(
+        { ...INPUT, totalAssets: 1000n },
+        { buffer: { type: 'percentage', percentage: 10 } }
+    )
+    const fixed = applyReservePolicy(INPUT, { buffer: { type: 'fixed', amount: '100' } })
+    const exceeded = applyReservePolicy(INPUT, { buffer: { type: 'fixed', amount: '600' } })
+
+    const passing =
+        compareDecisions(percentage, { [STETH]: [240n, { buffer: 60n }], [RETH]: [80n, { buffer: 20n }] }) &&
+        compareDecisions(fixed, { [STETH]: [240n, { buffer: 60n }], [RETH]: [80n, { buffer: 20n }] }) &&
+        compareDecisions(exceeded, { [STETH]: [0n, { buffer: 300n }], [RETH]: [0n, { buffer: 100n }] })
+
+    console.log('[Test] applyReservePolicy (buffer): ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the minimum and maximum stake per asset, applied after the buffer
+ *
+ */
+export async function testApplyReserveLimits() {
+    const decisions = applyReservePolicy(INPUT, {
+        buffer: { type: 'fixed', amount: '100' },
+        maxStake: { [STETH]: '200' },
+        minStake: { [RETH]: '100' }
+    })
+
+    const passing = compareDecisions(decisions, {
+        [STETH]: [200n, { buffer: 60n, maxStake: 40n }],
+        [RETH]: [0n, { buffer: 20n, minStake: 80n }]
+    })
+
+    console.log('[Test] applyReservePolicy (limits): ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+// --- Helper functions ---
+
+function compareDecisions(
+    decisions: ReserveDecision[],
+    expected: Record<string, [bigint, Record<string, bigint>]>
+): boolean {
+    return (
+        decisions.length === Object.keys(expected).length &&
+        decisions.every(({ asset, stakeAmount, heldBack }) => {
+            const [expectedStake, expectedHeldBack] = expected[asset]
+            return (
+                BigInt(stakeAmount) === expectedStake &&
+                heldBack.length === Object.keys(expectedHeldBack).length &&
+                heldBack.every(({ rule, amount }) => BigInt(amount) === expectedHeldBack[rule])
+            )
+        })
+    )
+}
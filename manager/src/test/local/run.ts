@@ -0,0 +1,147 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tracedFetch } from '../../utils/http'
+import { createLogger } from '../../utils/logger'
+import { getRunId, recordProposal, step, withRun } from '../../utils/run'
+import { readRunReport } from './helpers'
+
+// --- Run report and logger tests ---
+
+/**
+ * Test script for the run report written when a run succeeds, with its steps, proposals and warnings
+ *
+ */
+export async function testWithRun() {
+    const log = createLogger('Test')
+    const consoleLog = console.log
+    let runId = ''
+
+    console.log = () => {}
+    try {
+        await withRun('testWithRun', async () => {
+            runId = getRunId() ?? ''
+            await step('Passing step', async () => {})
+            await step('Failing step', async () => {
+                throw new Error('boom')
+            }).catch(() => {})
+            recordProposal({
+                title: 'Stake',
+                multisig: 'admin',
+                safeAddress: '0x0000000000000000000000000000000000000001',
+                nonce: 3,
+                safeTxHash: '0x01',
+                dryRun: true
+            })
+            log.warn('Low balance')
+        })
+    } finally {
+        console.log = consoleLog
+    }
+
+    const report = await readRunReport(runId)
+
+    const passing =
+        report?.name === 'testWithRun' &&
+        report.status === 'success' &&
+        report.durationMs !== null &&
+        report.steps.length === 2 &&
+        report.steps[0].success &&
+        !report.steps[1].success &&
+        report.steps[1].error === 'boom' &&
+        report.proposals[0]?.nonce === 3 &&
+        report.warnings.length === 1 &&
+        report.warnings[0] === 'Low balance'
+
+    console.log('[Test] withRun: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for the run report of a failed run, and the run's error being rethrown
+ *
+ */
+export async function testWithRunFailed() {
+    let runId = ''
+    let rethrown = false
+
+    try {
+        await withRun('testWithRunFailed', async () => {
+            runId = getRunId() ?? ''
+            throw new Error('Workflow failed')
+        })
+    } catch (error) {
+        rethrown = error.message === 'Workflow failed'
+    }
+
+    const report = await readRunReport(runId)
+
+    const passing = rethrown && report?.status === 'failed' && report.error === 'Workflow failed'
+
+    console.log('[Test] withRun failed: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for text log lines, tagged with the scope and the run ID of the current run
+ *
+ */
+export async function testCreateLogger() {
+    const log = createLogger('Test')
+    const lines: string[] = []
+    const consoleLog = console.log
+    let runId = ''
+
+    console.log = (line: string) => lines.push(line)
+    try {
+        log.info('Outside run')
+        await withRun('testCreateLogger', async () => {
+            runId = getRunId() ?? ''
+            log.debug('Hidden')
+            log.info('Inside run', { amount: 10n, assets: ['0x1'] })
+            log.warn('Low balance')
+            log.error('Failed', new Error('boom'))
+        })
+    } finally {
+        console.log = consoleLog
+    }
+
+    await readRunReport(runId)
+
+    const passing =
+        lines[0] === '[Test] Outside run' &&
+        !lines.some((line) => line.includes('Hidden')) &&
+        lines.includes(`[Test][${runId}] Inside run amount=10 assets=["0x1"]`) &&
+        lines.includes(`[Test][${runId}][Warning] Low balance`) &&
+        lines.includes(`[Test][${runId}][Error] Failed error=boom`)
+
+    console.log('[Test] createLogger: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for `tracedFetch` sending the run ID only to calls that opt in with `sendRunId`
+ *
+ */
+export async function testTracedFetch() {
+    const received: (string | undefined)[] = []
+    const server = http.createServer((req, res) => {
+        received.push(req.headers['x-run-id'] as string | undefined)
+        res.writeHead(200).end()
+    })
+
+    try {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        let runId = ''
+
+        await withRun('testTracedFetch', async () => {
+            runId = getRunId() ?? ''
+            await tracedFetch(`${url}/internal`, {}, { sendRunId: true })
+            await tracedFetch(`${url}/external`)
+        })
+        await readRunReport(runId)
+
+        const passing = received.length === 2 && received[0] === runId && received[1] === undefined
+
+        console.log('[Test] tracedFetch: ', passing ? 'passing ✅' : 'failing ❌')
+    } finally {
+        server.close()
+    }
+}
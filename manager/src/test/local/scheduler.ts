@@ -0,0 +1,124 @@
+import fs from 'node:fs/promises'
+import { type RetryConfig, getConfig, resolveConfigPath } from '../../utils/config'
+import { resetMetrics } from '../../utils/metrics'
+import { getRunId } from '../../utils/run'
+import { getJobStates, getRetryDelay, runWithRetry, scheduleWorkflow, stopScheduler } from '../../utils/scheduler'
+import { readRunReport } from './helpers'
+
+// --- Scheduler tests ---
+
+const RETRY: RetryConfig = { maxRetries: 2, initialDelay: 0, backoffFactor: 2, maxDelay: 0 }
+
+/**
+ * Test script for the retry delay growing by the backoff factor up to the max delay
+ *
+ */
+export async function testGetRetryDelay() {
+    const retry: RetryConfig = { maxRetries: 5, initialDelay: 10, backoffFactor: 2, maxDelay: 60 }
+    const delays = [1, 2, 3, 4, 5].map((attempt) => getRetryDelay(attempt, retry))
+
+    const passing = delays.join(',') === '10,20,40,60,60'
+
+    console.log('[Test] getRetryDelay: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for retrying a failing workflow within one run, until it succeeds or runs out of retries
+ *
+ */
+export async function testRunWithRetry() {
+    const consoleLog = console.log
+    const runIds = new Set<string>()
+    let calls = 0
+
+    console.log = () => {}
+    try {
+        const recovered = await runWithRetry(
+            'testRunWithRetry',
+            async () => {
+                runIds.add(getRunId() ?? '')
+                if (++calls < 2) throw new Error('Flaky')
+            },
+            RETRY
+        )
+        const failed = await runWithRetry(
+            'testRunWithRetry',
+            async () => {
+                runIds.add(getRunId() ?? '')
+                throw new Error('Broken')
+            },
+            RETRY
+        )
+
+        const reports = await Promise.all([...runIds].map((runId) => readRunReport(runId)))
+
+        console.log = consoleLog
+
+        const passing =
+            recovered.success &&
+            recovered.attempts === 2 &&
+            !failed.success &&
+            failed.attempts === RETRY.maxRetries + 1 &&
+            failed.error === 'Broken' &&
+            runIds.size === 2 &&
+            reports[0]?.steps.map((step) => step.success).join(',') === 'false,true' &&
+            reports[1]?.steps.length === RETRY.maxRetries + 1
+
+        console.log('[Test] runWithRetry: ', passing ? 'passing ✅' : 'failing ❌')
+    } finally {
+        console.log = consoleLog
+        resetMetrics()
+    }
+}
+
+/**
+ * Test script for skipping a scheduled tick while the previous run is still in progress
+ *
+ */
+export async function testScheduleWorkflowSkipsOverlap() {
+    const { log: consoleLog, warn: consoleWarn } = console
+    const stateFile = resolveConfigPath(getConfig().scheduler.stateFile)
+    const savedState = await fs.readFile(stateFile, 'utf8').catch(() => null)
+    const runIds: string[] = []
+    let release = () => {}
+    const blocked = new Promise<void>((resolve) => (release = resolve))
+
+    console.log = () => {}
+    console.warn = () => {} // node-cron warns about each blocked tick
+    try {
+        // Ticks every second, while the first run blocks for about 2.5 seconds
+        scheduleWorkflow(
+            'testScheduleWorkflow',
+            async () => {
+                runIds.push(getRunId() ?? '')
+                await blocked
+            },
+            { cron: '* * * * * *', enabled: true },
+            RETRY
+        )
+
+        await new Promise((resolve) => setTimeout(resolve, 2500))
+        const running = getJobStates()[0]?.running
+
+        await stopScheduler()
+        release()
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        await Promise.all(runIds.map((runId) => readRunReport(runId)))
+
+        console.log = consoleLog
+        console.warn = consoleWarn
+
+        const passing = running === true && runIds.length === 1
+
+        console.log('[Test] scheduleWorkflow skips overlap: ', passing ? 'passing ✅' : 'failing ❌')
+    } finally {
+        console.log = consoleLog
+        console.warn = consoleWarn
+        release()
+        await stopScheduler()
+        resetMetrics()
+
+        if (savedState === null) await fs.rm(stateFile, { force: true })
+        else await fs.writeFile(stateFile, savedState)
+    }
+}
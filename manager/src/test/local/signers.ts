@@ -0,0 +1,49 @@
+import { decryptKeystore } from '../../utils/signers'
+
+// --- Signer tests ---
+
+// Anvil acc #0, encrypted with the password `password` and a low scrypt cost
+const KEYSTORE = JSON.stringify({
+    version: 3,
+    crypto: {
+        cipher: 'aes-128-ctr',
+        cipherparams: { iv: 'cdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcd' },
+        ciphertext: '871c17f82575e09ee9e7bf352bc6b6bab6b9fb6500fba387d6dcf7aab2ca069a',
+        kdf: 'scrypt',
+        kdfparams: {
+            dklen: 32,
+            n: 1024,
+            p: 1,
+            r: 8,
+            salt: 'abababababababababababababababababababababababababababababababab'
+        },
+        mac: 'c8e4090c402dbf2c027956eb2c4873f97506596134b5c721d86a08cff373069f'
+    }
+})
+
+/**
+ * Test script for decrypting a JSON keystore
+ *
+ */
+export async function testDecryptKeystore() {
+    const passing =
+        decryptKeystore(KEYSTORE, 'password') === '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+    console.log('[Test] decryptKeystore: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for rejecting a JSON keystore with the wrong password
+ *
+ */
+export async function testDecryptKeystoreWrongPassword() {
+    let passing = false
+
+    try {
+        decryptKeystore(KEYSTORE, 'wrong password')
+    } catch (error) {
+        passing = error.message === 'Invalid keystore password'
+    }
+
+    console.log('[Test] decryptKeystore (wrong password): ', passing ? 'passing ✅' : 'failing ❌')
+}
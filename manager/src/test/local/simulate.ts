@@ -0,0 +1,65 @@
+import { CallExecutionError, HttpRequestError, RawContractError } from 'viem'
+import { encodeErrorResult, parseAbi } from 'viem/utils'
+import { LAT_ERRORS } from '../../utils/abis'
+import { getRevertReason } from '../../utils/simulate'
+
+// --- Simulation tests ---
+
+const ASSET = '0x3F1c547b21f65e10480dE3ad8E19fAAC46C95034'
+
+const BUILTIN_ERRORS = parseAbi(['error Error(string message)', 'error Panic(uint256 code)'])
+
+/**
+ * Test script for decoding the revert reason of a simulation, from LAT custom errors, `Error(string)` and `Panic(uint256)`
+ *
+ */
+export async function testGetRevertReason() {
+    const customError = revert(
+        encodeErrorResult({
+            abi: LAT_ERRORS,
+            errorName: 'InsufficientBalance',
+            args: [ASSET, 100n, 40n]
+        })
+    )
+    const stringError = revert(
+        encodeErrorResult({ abi: BUILTIN_ERRORS, errorName: 'Error', args: ['Ownable: caller is not the owner'] })
+    )
+    const panic = revert(encodeErrorResult({ abi: BUILTIN_ERRORS, errorName: 'Panic', args: [0x11n] }))
+
+    const passing =
+        getRevertReason(customError) === `InsufficientBalance("${ASSET}","100","40")` &&
+        getRevertReason(stringError) === 'Error("Ownable: caller is not the owner")' &&
+        getRevertReason(panic) === 'Panic("17")'
+
+    console.log('[Test] getRevertReason: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for revert reasons of unknown errors, reverts without data and errors that are not reverts
+ *
+ */
+export async function testGetRevertReasonUnknown() {
+    const unknownError = revert('0xdeadbeef0000000000000000000000000000000000000000000000000000000000000001')
+    const noData = revert('0x')
+    const unreachable = new HttpRequestError({ url: 'http://127.0.0.1:8545', details: 'fetch failed' })
+
+    const passing =
+        getRevertReason(unknownError) === 'unknown error 0xdeadbeef' &&
+        getRevertReason(noData) === noData.shortMessage &&
+        getRevertReason(unreachable) === 'HTTP request failed.' &&
+        getRevertReason('boom') === 'boom'
+
+    console.log('[Test] getRevertReason (unknown errors): ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the error viem throws for an `eth_call` that reverts with the given data
+ *
+ * @param data
+ * @returns
+ */
+function revert(data: `0x${string}`): CallExecutionError {
+    return new CallExecutionError(new RawContractError({ data }), {})
+}
@@ -1,8 +1,11 @@
 import 'dotenv/config'
 
-import type { Abi } from 'viem'
-import { ADMIN, DEPLOYMENT, LIQUID_TOKEN_ADDRESS, NETWORK, PAUSER } from '../../utils/forge'
+import { type Abi, maxUint256, zeroHash } from 'viem'
+import { DEPLOYMENT, NETWORK } from '../../utils/forge'
+import type { Deployment } from '../../utils/deployment'
 import { apiKit } from '../../utils/safe'
+import { MULTI_SEND_ABI } from '../../utils/abis'
+import { unpackMultiSend } from '../../utils/decode'
 import { decodeFunctionData, encodeFunctionData, parseAbi } from 'viem/utils'
 import { createStakerNodes } from '../../tasks/createStakerNodes'
 import { delegateNodes } from '../../tasks/delegateNodes'
@@ -36,34 +39,38 @@ const ABIS: Record<string, string[]> = {
 /**
  * Test script for creating staker nodes
  *
+ * @param deployment
  */
-export async function testCreateStakerNodes() {
+export async function testCreateStakerNodes(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'createStakerNode'
         const abi = parseAbi(ABIS[functionName])
 
         // Create two staker nodes
-        await createStakerNodes(2)
+        await createStakerNodes(deployment, 2)
 
-        // Get proposed txs
-        const pendingTransactions = (
-            await apiKit.getPendingTransactions(ADMIN, {
-                limit: 2
+        // Get proposed tx, bundled into a single MultiSend
+        const pendingTx = (
+            await apiKit.getPendingTransactions(deployment.admin, {
+                limit: 1
             })
-        ).results
+        ).results[0]
+
+        const calls = unpackMultiSend(
+            decodeFunctionData({ abi: MULTI_SEND_ABI, data: pendingTx.data as `0x${string}` }).args[0]
+        )
+        passing = calls.length === 2
 
-        for (const [index, pendingTx] of pendingTransactions.entries()) {
-            const txData = pendingTx.data as `0x${string}`
+        for (const [index, call] of calls.entries()) {
             const expectedTxData = encodeFunctionData({
                 abi,
                 functionName,
                 args: []
             })
-            passing = compareTxData(txData, expectedTxData, abi)
+            passing = passing && compareTxData(call.data, expectedTxData, abi)
 
             console.log(`[Test] ${functionName}: ${index + 1}: `, passing ? 'passing ✅' : 'failing ❌')
         }
@@ -75,11 +82,11 @@ export async function testCreateStakerNodes() {
 /**
  * Test script for delegating staker nodes
  *
+ * @param deployment
  */
-export async function testDelegateNodes() {
+export async function testDelegateNodes(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'delegateNodes'
@@ -91,28 +98,12 @@ export async function testDelegateNodes() {
                 ? '0x5accc90436492f24e6af278569691e2c942a676d'
                 : '0x5accc90436492f24e6af278569691e2c942a676d'
 
-        await delegateNodes(
-            ['3', '4'],
-            [operatorAddress, operatorAddress],
-            [
-                {
-                    signature: '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
-                    expiry: 0
-                },
-                {
-                    signature: '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
-                    expiry: 0
-                }
-            ],
-            [
-                '0x0000000000000000000000000000000000000000000000000000000000000000',
-                '0x0000000000000000000000000000000000000000000000000000000000000000'
-            ]
-        )
+        // Signatures and salts are read from the operator's delegation approver
+        await delegateNodes(deployment, ['3', '4'], [operatorAddress, operatorAddress], [], [])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -125,13 +116,10 @@ export async function testDelegateNodes() {
                 ['3', '4'],
                 [operatorAddress, operatorAddress],
                 [
-                    ['0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff', 0n],
-                    ['0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff', 0n]
+                    ['0x', maxUint256],
+                    ['0x', maxUint256]
                 ],
-                [
-                    '0x0000000000000000000000000000000000000000000000000000000000000000',
-                    '0x0000000000000000000000000000000000000000000000000000000000000000'
-                ]
+                [zeroHash, zeroHash]
             ]
         })
         passing = compareTxData(txData, expectedTxData, abi)
@@ -144,11 +132,11 @@ export async function testDelegateNodes() {
 /**
  * Test script for staking assets to nodes
  *
+ * @param deployment
  */
-export async function testStakeAssetsToNodes() {
+export async function testStakeAssetsToNodes(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'stakeAssetsToNodes'
@@ -173,11 +161,11 @@ export async function testStakeAssetsToNodes() {
             }
         ]
 
-        await stakeAssetsToNodes(allocations)
+        await stakeAssetsToNodes(deployment, allocations)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -204,11 +192,11 @@ export async function testStakeAssetsToNodes() {
 /**
  * Test script for staking assets to one node
  *
+ * @param deployment
  */
-export async function testStakeAssetsToNode() {
+export async function testStakeAssetsToNode(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'stakeAssetsToNode'
@@ -222,11 +210,11 @@ export async function testStakeAssetsToNode() {
         const args: [string, string[], string[]] = ['2', [stEthAddress], ['3000000000000000000']]
 
         // Stake assets to third node
-        await stakeAssetsToNode(...args)
+        await stakeAssetsToNode(deployment, ...args)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -248,11 +236,11 @@ export async function testStakeAssetsToNode() {
 /**
  * Test script for undelegating nodes
  *
+ * @param deployment
  */
-export async function testUndelegateNodes() {
+export async function testUndelegateNodes(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'undelegateNodes'
@@ -261,11 +249,11 @@ export async function testUndelegateNodes() {
         const args: [string[]] = [['0', '1']]
 
         // Undelegate two nodes
-        await undelegateNodes(...args)
+        await undelegateNodes(deployment, ...args)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -289,11 +277,11 @@ export async function testUndelegateNodes() {
 /**
  * Test script for adding token
  *
+ * @param deployment
  */
-export async function testAddToken() {
+export async function testAddToken(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'addToken'
@@ -317,11 +305,11 @@ export async function testAddToken() {
             '0x07a2d13a'
         ]
 
-        await addToken(...args)
+        await addToken(deployment, ...args)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -359,21 +347,21 @@ export async function testAddToken() {
 /**
  * Test script for pausing liquid token
  *
+ * @param deployment
  */
-export async function testPauseLiquidToken() {
+export async function testPauseLiquidToken(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!PAUSER) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'pause'
         const abi = parseAbi(['function pause()'])
 
-        await pauseLiquidToken()
+        await pauseLiquidToken(deployment)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(PAUSER, {
+            await apiKit.getPendingTransactions(deployment.pauser, {
                 limit: 1
             })
         ).results[0]
@@ -395,11 +383,11 @@ export async function testPauseLiquidToken() {
 /**
  * Test script for removing token
  *
+ * @param deployment
  */
-export async function testRemoveToken() {
+export async function testRemoveToken(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'removeToken'
@@ -411,11 +399,11 @@ export async function testRemoveToken() {
                 : '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84' // stETH
         ]
 
-        await removeToken(args[0])
+        await removeToken(deployment, args[0])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -437,11 +425,11 @@ export async function testRemoveToken() {
 /**
  * Test script for setting max nodes
  *
+ * @param deployment
  */
-export async function testSetMaxNodes() {
+export async function testSetMaxNodes(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'setMaxNodes'
@@ -449,11 +437,11 @@ export async function testSetMaxNodes() {
 
         const args: [string] = ['1000']
 
-        await setMaxNodes(args[0])
+        await setMaxNodes(deployment, args[0])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -475,11 +463,11 @@ export async function testSetMaxNodes() {
 /**
  * Test script for setting volatility threshold
  *
+ * @param deployment
  */
-export async function testSetVolatilityThreshold() {
+export async function testSetVolatilityThreshold(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'setVolatilityThreshold'
@@ -492,11 +480,11 @@ export async function testSetVolatilityThreshold() {
             '50000000000000000'
         ]
 
-        await setVolatilityThreshold(args[0], args[1])
+        await setVolatilityThreshold(deployment, args[0], args[1])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -523,21 +511,21 @@ export async function testSetVolatilityThreshold() {
 /**
  * Test script for unpausing liquid token
  *
+ * @param deployment
  */
-export async function testUnpauseLiquidToken() {
+export async function testUnpauseLiquidToken(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'unpause'
         const abi = parseAbi(['function unpause()'])
 
-        await unpauseLiquidToken()
+        await unpauseLiquidToken(deployment)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -559,11 +547,11 @@ export async function testUnpauseLiquidToken() {
 /**
  * Test script for upgrading staker node implementation
  *
+ * @param deployment
  */
-export async function testUpgradeStakerNodeImplementation() {
+export async function testUpgradeStakerNodeImplementation(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'upgradeStakerNodeImplementation'
@@ -575,11 +563,11 @@ export async function testUpgradeStakerNodeImplementation() {
                 : '0x0987654321098765432109876543210987654321'
         ]
 
-        await upgradeStakerNodeImplementation(args[0])
+        await upgradeStakerNodeImplementation(deployment, args[0])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -601,21 +589,21 @@ export async function testUpgradeStakerNodeImplementation() {
 /**
  * Test script for updating all token prices
  *
+ * @param deployment
  */
-export async function testUpdateAllPricesIfNeeded() {
+export async function testUpdateAllPricesIfNeeded(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'updateAllPricesIfNeeded'
         const abi = parseAbi(['function updateAllPricesIfNeeded()'])
 
-        await updateAllPricesIfNeeded()
+        await updateAllPricesIfNeeded(deployment)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -637,11 +625,11 @@ export async function testUpdateAllPricesIfNeeded() {
 /**
  * Test script for batched price update
  *
+ * @param deployment
  */
-export async function testBatchUpdateRates() {
+export async function testBatchUpdateRates(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'batchUpdateRates'
@@ -654,11 +642,11 @@ export async function testBatchUpdateRates() {
             [110100000000000000n, 102500000000000000n]
         ]
 
-        await batchUpdateRates(args[0], args[1])
+        await batchUpdateRates(deployment, args[0], args[1])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -680,11 +668,11 @@ export async function testBatchUpdateRates() {
 /**
  * Test script for granting role
  *
+ * @param deployment
  */
-export async function testGrantRole() {
+export async function testGrantRole(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'grantRole'
@@ -695,11 +683,11 @@ export async function testGrantRole() {
             '0x457e4309b91f5cb6b0ad9c6bf39e4788b5ba6a12'
         ]
 
-        await grantRole(LIQUID_TOKEN_ADDRESS, args[0], args[1])
+        await grantRole(deployment, deployment.liquidToken, args[0], args[1])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -721,11 +709,11 @@ export async function testGrantRole() {
 /**
  * Test script for revoking role
  *
+ * @param deployment
  */
-export async function testRevokeRole() {
+export async function testRevokeRole(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'revokeRole'
@@ -736,11 +724,11 @@ export async function testRevokeRole() {
             '0x457e4309b91f5cb6b0ad9c6bf39e4788b5ba6a12'
         ]
 
-        await revokeRole(LIQUID_TOKEN_ADDRESS, args[0], args[1])
+        await revokeRole(deployment, deployment.liquidToken, args[0], args[1])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -762,11 +750,11 @@ export async function testRevokeRole() {
 /**
  * Test script for setting price update interval
  *
+ * @param deployment
  */
-export async function testSetPriceUpdateInterval() {
+export async function testSetPriceUpdateInterval(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'setPriceUpdateInterval'
@@ -774,11 +762,11 @@ export async function testSetPriceUpdateInterval() {
 
         const args: [bigint] = [86400n]
 
-        await setPriceUpdateInterval(args[0])
+        await setPriceUpdateInterval(deployment, args[0])
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
@@ -800,11 +788,11 @@ export async function testSetPriceUpdateInterval() {
 /**
  * Test script for disabling emergency interval
  *
+ * @param deployment
  */
-export async function testDisableEmergencyInterval() {
+export async function testDisableEmergencyInterval(deployment: Deployment) {
     try {
         if (DEPLOYMENT !== 'local') throw new Error('Deployment is not local')
-        if (!ADMIN) throw new Error('Env vars not set correctly.')
 
         let passing = true
         const functionName = 'disableEmergencyInterval'
@@ -812,11 +800,11 @@ export async function testDisableEmergencyInterval() {
 
         const args: [] = []
 
-        await disableEmergencyInterval()
+        await disableEmergencyInterval(deployment)
 
         // Get proposed tx
         const pendingTx = (
-            await apiKit.getPendingTransactions(ADMIN, {
+            await apiKit.getPendingTransactions(deployment.admin, {
                 limit: 1
             })
         ).results[0]
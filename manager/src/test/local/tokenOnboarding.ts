@@ -0,0 +1,75 @@
+import { checkPrices, parseLatTokenConfigs } from '../../utils/tokenOnboarding'
+import { throwsWith } from './helpers'
+
+// --- Token onboarding tests ---
+
+const CONFIG_FILE = 'xeigenda-eth.anvil.config.json'
+
+const TOKEN = {
+    name: 'rETH',
+    addresses: {
+        token: '0xae78736Cd615f374D3085123A210448E74Fc6393',
+        strategy: '0x1bee69b7dfffa4e2d53c2a2df135c388ad25dcd2'
+    },
+    params: { volatilityThreshold: '50000000000000000', decimals: 18 },
+    oracle: {
+        sourceType: 1,
+        primarySource: '0x536218f9E9Eb48863970252233c8F271f554C2d0',
+        needsArg: 0,
+        fallbackSource: '0xae78736Cd615f374D3085123A210448E74Fc6393',
+        fallbackSelector: '0xe6aa216c'
+    }
+}
+
+/**
+ * Test script for reading the tokens of a LAT config file, and rejecting malformed ones
+ *
+ */
+export async function testParseLatTokenConfigs() {
+    const [token] = parseLatTokenConfigs({ tokens: [TOKEN] }, CONFIG_FILE)
+
+    const passing =
+        token.name === 'rETH' &&
+        token.strategy === '0x1BeE69b7dFFfA4E2d53C2a2Df135C388AD25dCD2' &&
+        token.decimals === 18 &&
+        token.volatilityThreshold === '50000000000000000' &&
+        token.oracle.sourceType === 1 &&
+        token.oracle.fallbackSelector === '0xe6aa216c' &&
+        throwsWith(
+            () =>
+                parseLatTokenConfigs(
+                    { tokens: [{ ...TOKEN, oracle: { ...TOKEN.oracle, fallbackSelector: '0xe6aa' } }] },
+                    CONFIG_FILE
+                ),
+            'tokens.0.oracle.fallbackSelector is not a bytes4 selector'
+        ) &&
+        throwsWith(
+            () =>
+                parseLatTokenConfigs(
+                    { tokens: [{ ...TOKEN, params: { ...TOKEN.params, decimals: 256 } }] },
+                    CONFIG_FILE
+                ),
+            'tokens.0.params.decimals is not an integer up to 255'
+        )
+
+    console.log('[Test] parseLatTokenConfigs: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for checking the prices returned by a token's price sources
+ *
+ */
+export async function testCheckPrices() {
+    const threshold = 5n * 10n ** 16n
+    const passed = (checks: ReturnType<typeof checkPrices>) => checks.every((check) => check.passed)
+
+    const passing =
+        passed(checkPrices(10n ** 18n, 104n * 10n ** 16n, threshold)) &&
+        passed(checkPrices(10n ** 18n, undefined, threshold)) &&
+        !passed(checkPrices(null, 10n ** 18n, threshold)) &&
+        !passed(checkPrices(10n ** 18n, null, threshold)) &&
+        !passed(checkPrices(10n ** 18n, 2n * 10n ** 18n, threshold)) &&
+        checkPrices(10n ** 18n, 2n * 10n ** 18n, threshold).find((check) => !check.passed)?.name === 'priceDeviation'
+
+    console.log('[Test] checkPrices: ', passing ? 'passing ✅' : 'failing ❌')
+}
@@ -0,0 +1,73 @@
+import type { NodeAllocation } from '../../tasks/stakeAssetsToNodes'
+import { type StakeDeltas, checkStakeDeltas } from '../../utils/verification'
+
+// --- Stake verification tests ---
+
+const STETH = '0x3f1c547b21f65e10480de3ad8e19faac46c95034'
+const RETH = '0x7322c24752f79c05ffd1e2a6fcb97020c1c264f1'
+
+const PLAN: NodeAllocation[] = [
+    { nodeId: '0', assets: [STETH, RETH], amounts: ['1000', '500'] },
+    { nodeId: '1', assets: [STETH], amounts: ['2000'] }
+]
+
+/**
+ * Returns the balance changes of a proposal that staked exactly the plan
+ *
+ * @returns
+ */
+function exactDeltas(): StakeDeltas {
+    return {
+        nodes: new Map([
+            [`0:${STETH}`, 1000n],
+            [`0:${RETH}`, 500n],
+            [`1:${STETH}`, 2000n]
+        ]),
+        liquidToken: new Map([
+            [STETH, 3000n],
+            [RETH, 500n]
+        ])
+    }
+}
+
+/**
+ * Test script for a staking proposal that executed as planned
+ *
+ */
+export async function testCheckStakeDeltas() {
+    const result = checkStakeDeltas(PLAN, PLAN, exactDeltas())
+
+    const passing =
+        result.passed &&
+        result.calldataMatchesPlan &&
+        result.checks.length === 5 &&
+        result.checks.every((check) => check.shortfall === '0')
+
+    console.log('[Test] checkStakeDeltas: ', passing ? 'passing ✅' : 'failing ❌')
+}
+
+/**
+ * Test script for reporting a share rounding shortfall and executed calldata that differs from the plan
+ *
+ */
+export async function testCheckStakeDeltasShortfall() {
+    const deltas = exactDeltas()
+    deltas.nodes.set(`1:${STETH}`, 1999n) // Rounded down to strategy shares
+
+    const rounding = checkStakeDeltas(PLAN, PLAN, deltas)
+    const shortfalls = rounding.checks.filter((check) => check.shortfall !== '0')
+
+    const executed: NodeAllocation[] = [PLAN[0], { nodeId: '1', assets: [STETH], amounts: ['1500'] }]
+    const mismatch = checkStakeDeltas(PLAN, executed, exactDeltas())
+
+    const passing =
+        !rounding.passed &&
+        rounding.calldataMatchesPlan &&
+        shortfalls.length === 1 &&
+        shortfalls[0].nodeId === '1' &&
+        shortfalls[0].shortfall === '1' &&
+        !mismatch.passed &&
+        !mismatch.calldataMatchesPlan
+
+    console.log('[Test] checkStakeDeltas (shortfall): ', passing ? 'passing ✅' : 'failing ❌')
+}
@@ -0,0 +1,111 @@
+import { parseAbi } from 'viem/utils'
+
+// LAT contract functions that are proposed to the multisigs, used to decode proposal calldata
+
+export const LIQUID_TOKEN_ABI = parseAbi([
+    'function pause()',
+    'function unpause()',
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)'
+])
+
+export const LIQUID_TOKEN_MANAGER_ABI = parseAbi([
+    'struct SignatureWithExpiry { bytes signature; uint256 expiry; }',
+    'struct NodeAllocation { uint256 nodeId; address[] assets; uint256[] amounts; }',
+    'function addToken(address token, uint8 decimals, uint256 volatilityThreshold, address strategy, uint8 primaryType, address primarySource, uint8 needsArg, address fallbackSource, bytes4 fallbackFn)',
+    'function removeToken(address token)',
+    'function updatePrice(address token, uint256 newPrice)',
+    'function setVolatilityThreshold(address asset, uint256 newThreshold)',
+    'function delegateNodes(uint256[] nodeIds, address[] operators, SignatureWithExpiry[] approverSignatureAndExpiries, bytes32[] approverSalts)',
+    'function stakeAssetsToNode(uint256 nodeId, address[] assets, uint256[] amounts)',
+    'function stakeAssetsToNodes(NodeAllocation[] allocations)',
+    'function undelegateNodes(uint256[] nodeIds)',
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)'
+])
+
+export const STAKER_NODE_COORDINATOR_ABI = parseAbi([
+    'function createStakerNode() returns (address)',
+    'function upgradeStakerNodeImplementation(address implementationContract)',
+    'function setMaxNodes(uint256 maxNodes)',
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)'
+])
+
+export const TOKEN_REGISTRY_ORACLE_ABI = parseAbi([
+    'function batchUpdateRates(address[] tokens, uint256[] newRates)',
+    'function updateRate(address token, uint256 newRate)',
+    'function updateAllPricesIfNeeded() returns (bool)',
+    'function setPriceUpdateInterval(uint256 interval)',
+    'function disableEmergencyInterval()',
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)'
+])
+
+export const MULTI_SEND_ABI = parseAbi(['function multiSend(bytes transactions)'])
+
+// Custom errors of the LAT contracts, used to decode reverts
+export const LAT_ERRORS = parseAbi([
+    'error ArrayLengthMismatch()',
+    'error AssetBalanceOutOfSync(address asset, uint256 accountingBalance, uint256 actualBalance)',
+    'error AssetPriceInvalid(address token)',
+    'error BeaconImplementationAlreadyExists()',
+    'error DuplicateRequestId(bytes32 requestId)',
+    'error FallbackSourceRequired()',
+    'error InsufficientBalance(address asset, uint256 required, uint256 available)',
+    'error InsufficientFunds()',
+    'error IntervalCannotBeZero()',
+    'error InvalidDecimals()',
+    'error InvalidNodeId(uint256 nodeId)',
+    'error InvalidPrice()',
+    'error InvalidPriceSource()',
+    'error InvalidStakingAmount(uint256 amount)',
+    'error InvalidThreshold()',
+    'error InvalidUpdater(address sender)',
+    'error InvalidWithdrawalRequest()',
+    'error LengthMismatch(uint256 length1, uint256 length2)',
+    'error MaxNodesLowerThanCurrent(uint256 currentNodeCount, uint256 newMaxNodes)',
+    'error NativeTokensNotConfigurable()',
+    'error NoBeaconImplementationExists()',
+    'error NoFreshPrice(address token)',
+    'error NodeAlreadyRegistered(address nodeAddress)',
+    'error NodeIdOutOfRange(uint256 nodeId)',
+    'error NodeIsDelegated(address operatorDelegation)',
+    'error NodeIsNotDelegated()',
+    'error NotAContract()',
+    'error NotLiquidTokenManager()',
+    'error NotLiquidTokenManager(address sender)',
+    'error NotOwner()',
+    'error NotStakerNodeDelegator()',
+    'error NotStakerNodeOperator()',
+    'error Paused()',
+    'error PriceUpdateFailed()',
+    'error PriceUpdateRejected()',
+    'error PricesRemainStale()',
+    'error StrategyAlreadyAssigned(address strategy, address existingToken)',
+    'error StrategyNotFound(address asset)',
+    'error TokenExists(address asset)',
+    'error TokenForStrategyNotFound(address strategy)',
+    'error TokenInUse(address token)',
+    'error TokenNotSupported(address token)',
+    'error TokenPriceFetchFailed()',
+    'error TooManyStakerNodes(uint256 maxNodes)',
+    'error Unauthorized()',
+    'error UnauthorizedAccess(address caller, bytes32 requiredRole)',
+    'error UnsupportedAsset(address asset)',
+    'error VolatilityThresholdHit(address token, uint256 changeRatio)',
+    'error WithdrawalAlreadyFulfilled()',
+    'error WithdrawalDelayNotMet()',
+    'error ZeroAddress()',
+    'error ZeroAmount()',
+    'error ZeroShares()'
+])
+
+// Every function above, deduplicated, for decoding calldata without knowing the target contract
+export const LAT_ABI = [
+    ...LIQUID_TOKEN_ABI,
+    ...LIQUID_TOKEN_MANAGER_ABI,
+    ...STAKER_NODE_COORDINATOR_ABI,
+    ...TOKEN_REGISTRY_ORACLE_ABI,
+    ...MULTI_SEND_ABI
+].filter((item, index, all) => all.findIndex((other) => other.name === item.name) === index)
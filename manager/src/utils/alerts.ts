@@ -0,0 +1,134 @@
+import { type AlertsConfig, getConfig } from './config'
+import { createLogger } from './logger'
+import { tracedFetch } from './http'
+import { getRunReport } from './run'
+
+export type AlertType =
+    | 'workflowFailed' // Failed after all retries
+    | 'workflowSkipped' // Skipped or blocked, e.g. by a pending proposal
+    | 'pricesStale'
+    | 'paused'
+    | 'unpaused'
+    | 'proposalUnsigned' // Left without enough confirmations for longer than `alerts.unsignedProposalHours`
+    | 'stakeShortfall' // Executed staking proposal did not stake what was planned
+
+export type AlertFormat = 'slack' | 'discord' | 'json'
+
+export interface Alert {
+    type: AlertType
+    key: string // Alerts with the same type and key are deduplicated
+    severity: 'info' | 'warning' | 'critical'
+    title: string
+    message: string
+}
+
+const SEVERITY_EMOJIS: Record<Alert['severity'], string> = { info: 'ℹ️', warning: '⚠️', critical: '🚨' }
+
+const DISCORD_MAX_LENGTH = 2000
+
+// Type and key => time the alert was last sent
+const sentAlerts = new Map<string, number>()
+// Webhook URL => times alerts were sent to it within the rate limit window
+const deliveries = new Map<string, number[]>()
+
+const log = createLogger('Alerts')
+
+/**
+ * Sends an alert to every webhook that subscribes to its type, set in `alerts` config by default
+ * An alert with the same type and key as one delivered within `dedupWindow` is dropped, and each webhook gets at
+ * most `rateLimit.max` alerts per `rateLimit.window`. Delivery failures are logged, never thrown, and an alert
+ * no webhook received is not deduplicated
+ *
+ * @param alert
+ * @param config
+ * @returns
+ */
+export async function sendAlert(alert: Alert, config: AlertsConfig = getConfig().alerts): Promise<void> {
+    const { webhooks, dedupWindow, rateLimit } = config
+    const now = Date.now()
+    const alertKey = `${alert.type}:${alert.key}`
+
+    const lastSent = sentAlerts.get(alertKey)
+    if (lastSent !== undefined && now - lastSent < dedupWindow * 1000) {
+        log.debug(`Dropped duplicate alert ${alertKey}`)
+        return
+    }
+
+    const targets = webhooks.filter((webhook) => !webhook.events || webhook.events.includes(alert.type))
+    if (targets.length === 0) return
+
+    const delivered = await Promise.all(
+        targets.map(async (webhook) => {
+            const recent = (deliveries.get(webhook.url) ?? []).filter((time) => now - time < rateLimit.window * 1000)
+            if (recent.length >= rateLimit.max) {
+                deliveries.set(webhook.url, recent)
+                log.warn(`Alert rate limit reached for a ${webhook.format} webhook. Dropped alert ${alertKey}`)
+                return false
+            }
+            deliveries.set(webhook.url, [...recent, now])
+
+            try {
+                const response = await tracedFetch(webhook.url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(formatAlert(alert, webhook.format))
+                })
+
+                if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+                return true
+            } catch (error) {
+                log.warn(`Failed to send alert ${alertKey} to a ${webhook.format} webhook: ${error.message}`)
+                return false
+            }
+        })
+    )
+
+    if (delivered.some(Boolean)) sentAlerts.set(alertKey, now)
+}
+
+/**
+ * Sends a `workflowSkipped` alert for the workflow of the current run
+ *
+ * @param reason
+ * @returns
+ */
+export function alertWorkflowSkipped(reason: string): Promise<void> {
+    const workflow = getRunReport()?.name ?? 'unknown'
+
+    return sendAlert({
+        type: 'workflowSkipped',
+        key: `${workflow}:${reason}`,
+        severity: 'warning',
+        title: `${workflow} skipped`,
+        message: reason
+    })
+}
+
+/**
+ * Returns the webhook payload for an alert
+ *
+ * @param alert
+ * @param format
+ * @returns
+ */
+export function formatAlert(alert: Alert, format: AlertFormat): Record<string, unknown> {
+    const emoji = SEVERITY_EMOJIS[alert.severity]
+
+    switch (format) {
+        case 'slack':
+            return { text: `${emoji} *${alert.title}*\n${alert.message}` }
+        case 'discord':
+            return { content: `${emoji} **${alert.title}**\n${alert.message}`.slice(0, DISCORD_MAX_LENGTH) }
+        case 'json':
+            return { ...alert, timestamp: new Date().toISOString() }
+    }
+}
+
+/**
+ * Forgets sent alerts and deliveries, so deduplication and rate limits start over
+ *
+ */
+export function resetAlerts() {
+    sentAlerts.clear()
+    deliveries.clear()
+}
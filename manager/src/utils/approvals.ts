@@ -0,0 +1,187 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import { type Address, type Hex, bytesToHex, maxUint256, zeroAddress, zeroHash } from 'viem'
+import { getAddress, parseAbi } from 'viem/utils'
+import { getConfig, resolveConfigPath } from './config'
+import type { Deployment } from './deployment'
+import { createLogger } from './logger'
+import { getSigner, isSignerSet } from './signers'
+import { getViemClient } from './viemClient'
+
+export interface ApproverSignature {
+    signature: Hex
+    expiry: string
+}
+
+// Signature and salt passed for operators without a delegation approver, which EigenLayer does not check
+export const EMPTY_APPROVER_SIGNATURE: ApproverSignature = { signature: '0x', expiry: maxUint256.toString() }
+export const EMPTY_APPROVER_SALT: Hex = zeroHash
+
+// Entry of the approvals file, signed by an operator's delegation approver for one staker node
+interface ApprovalFileEntry {
+    operator: string
+    staker: string // Staker node address
+    signature: Hex
+    expiry: string | number
+    salt: Hex
+}
+
+const DELEGATION_MANAGER_ABI = parseAbi([
+    'function delegationManager() view returns (address)',
+    'function getNodeById(uint256 nodeId) view returns (address)',
+    'function delegationApprover(address operator) view returns (address)',
+    'function delegationApproverSaltIsSpent(address approver, bytes32 salt) view returns (bool)',
+    'function calculateDelegationApprovalDigestHash(address staker, address operator, address approver, bytes32 approverSalt, uint256 expiry) view returns (bytes32)'
+])
+
+const log = createLogger('Approvals')
+
+/**
+ * Returns the delegation approver signature and salt for delegating each node to its operator
+ * Operators without a delegation approver get an empty signature. For the others, the approval is read
+ * from the `delegation.approvalsFile` in config, or signed with the `DELEGATION_APPROVER_*` signer if it
+ * is the operator's approver
+ *
+ * @param deployment
+ * @param nodeIds
+ * @param operators
+ * @returns
+ */
+export async function getApproverSignatures(
+    deployment: Deployment,
+    nodeIds: string[],
+    operators: string[]
+): Promise<{ signatures: ApproverSignature[]; salts: Hex[] }> {
+    const viemClient = getViemClient()
+    const delegationManager = await viemClient.readContract({
+        address: deployment.stakerNodeCoordinator,
+        abi: DELEGATION_MANAGER_ABI,
+        functionName: 'delegationManager'
+    })
+
+    const approvals = await Promise.all(
+        nodeIds.map(async (nodeId, index) => {
+            const operator = getAddress(operators[index])
+            const approver = await viemClient.readContract({
+                address: delegationManager,
+                abi: DELEGATION_MANAGER_ABI,
+                functionName: 'delegationApprover',
+                args: [operator]
+            })
+
+            if (approver === zeroAddress) return { signature: EMPTY_APPROVER_SIGNATURE, salt: EMPTY_APPROVER_SALT }
+
+            const staker = await viemClient.readContract({
+                address: deployment.stakerNodeCoordinator,
+                abi: DELEGATION_MANAGER_ABI,
+                functionName: 'getNodeById',
+                args: [BigInt(nodeId)]
+            })
+
+            log.info(`Operator ${operator} has delegation approver ${approver}. Getting approval for node ${nodeId}...`)
+
+            return getApproval(delegationManager, staker, operator, approver)
+        })
+    )
+
+    return { signatures: approvals.map(({ signature }) => signature), salts: approvals.map(({ salt }) => salt) }
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the approver's signature for delegating a staker node to an operator, from the approvals file
+ * if it has one, or signed with the configured approver signer
+ *
+ * @param delegationManager
+ * @param staker
+ * @param operator
+ * @param approver
+ * @returns
+ */
+async function getApproval(
+    delegationManager: Address,
+    staker: Address,
+    operator: Address,
+    approver: Address
+): Promise<{ signature: ApproverSignature; salt: Hex }> {
+    const viemClient = getViemClient()
+    const entry = await findApprovalFileEntry(staker, operator)
+
+    if (entry) {
+        const expiry = BigInt(entry.expiry)
+        if (expiry <= BigInt(Math.floor(Date.now() / 1000))) {
+            throw new Error(`Approval for node ${staker} and operator ${operator} expired at ${expiry}`)
+        }
+
+        const [digest, saltSpent] = await Promise.all([
+            getDigest(delegationManager, staker, operator, approver, entry.salt, expiry),
+            viemClient.readContract({
+                address: delegationManager,
+                abi: DELEGATION_MANAGER_ABI,
+                functionName: 'delegationApproverSaltIsSpent',
+                args: [approver, entry.salt]
+            })
+        ])
+
+        if (saltSpent) throw new Error(`Approval salt ${entry.salt} for operator ${operator} is already spent`)
+
+        // Supports both EOA and EIP-1271 approvers
+        const valid = await viemClient.verifyHash({ address: approver, hash: digest, signature: entry.signature })
+        if (!valid) throw new Error(`Approval for node ${staker} and operator ${operator} is not signed by ${approver}`)
+
+        return { signature: { signature: entry.signature, expiry: expiry.toString() }, salt: entry.salt }
+    }
+
+    if (!isSignerSet('delegationApprover')) {
+        throw new Error(
+            `No approval for node ${staker} and operator ${operator}. Add one to the approvals file or set the DELEGATION_APPROVER signer`
+        )
+    }
+
+    const signer = await getSigner('delegationApprover')
+    if (signer.address !== approver) {
+        throw new Error(`Delegation approver signer ${signer.address} is not the approver ${approver} of ${operator}`)
+    }
+    if (!signer.sign) throw new Error('Delegation approver signer cannot sign digests. Use a private key or keystore')
+
+    const salt = bytesToHex(crypto.randomBytes(32))
+    const expiry = BigInt(Math.floor(Date.now() / 1000) + getConfig().delegation.signatureTtl)
+    const digest = await getDigest(delegationManager, staker, operator, approver, salt, expiry)
+
+    return { signature: { signature: await signer.sign({ hash: digest }), expiry: expiry.toString() }, salt }
+}
+
+function getDigest(
+    delegationManager: Address,
+    staker: Address,
+    operator: Address,
+    approver: Address,
+    salt: Hex,
+    expiry: bigint
+): Promise<Hex> {
+    return getViemClient().readContract({
+        address: delegationManager,
+        abi: DELEGATION_MANAGER_ABI,
+        functionName: 'calculateDelegationApprovalDigestHash',
+        args: [staker, operator, approver, salt, expiry]
+    })
+}
+
+async function findApprovalFileEntry(staker: Address, operator: Address): Promise<ApprovalFileEntry | undefined> {
+    const { approvalsFile } = getConfig().delegation
+    if (!approvalsFile) return undefined
+
+    let entries: ApprovalFileEntry[]
+    try {
+        entries = JSON.parse(await fs.readFile(resolveConfigPath(approvalsFile), 'utf8')).approvals
+    } catch (error) {
+        throw new Error(`Failed to read approvals file ${approvalsFile}: ${error.message}`)
+    }
+
+    return entries.find(
+        (entry) =>
+            entry.staker?.toLowerCase() === staker.toLowerCase() &&
+            entry.operator?.toLowerCase() === operator.toLowerCase()
+    )
+}
@@ -0,0 +1,157 @@
+import type { Hex } from 'viem'
+import { encodeFunctionData, getAddress, parseAbi } from 'viem/utils'
+import { LIQUID_TOKEN_MANAGER_ABI, STAKER_NODE_COORDINATOR_ABI } from './abis'
+import { EMPTY_APPROVER_SALT, EMPTY_APPROVER_SIGNATURE } from './approvals'
+import type { Deployment } from './deployment'
+import { getViemClient } from './viemClient'
+
+// Native equivalents of the forge tasks in `/script/tasks`. Each builder returns the calls the task
+// would broadcast, in the same order and with the same calldata
+
+export interface TaskCall {
+    to: string
+    value: string
+    data: Hex
+    gas?: bigint // Gas used by the call, if known. Estimated from the Safe when needed for bundling
+}
+
+const STAKER_NODE_COORDINATOR_READ_ABI = parseAbi([
+    'function getStakerNodesCount() view returns (uint256)',
+    'function maxNodes() view returns (uint256)'
+])
+
+/**
+ * Builds the calls of `SNC_CreateStakerNodes`: one `createStakerNode` call per node
+ *
+ * @param deployment
+ * @param count
+ * @returns
+ */
+export async function buildCreateStakerNodes(deployment: Deployment, count: number): Promise<TaskCall[]> {
+    const viemClient = getViemClient()
+    const [nodesCount, maxNodes] = await Promise.all([
+        viemClient.readContract({
+            address: deployment.stakerNodeCoordinator,
+            abi: STAKER_NODE_COORDINATOR_READ_ABI,
+            functionName: 'getStakerNodesCount'
+        }),
+        viemClient.readContract({
+            address: deployment.stakerNodeCoordinator,
+            abi: STAKER_NODE_COORDINATOR_READ_ABI,
+            functionName: 'maxNodes'
+        })
+    ])
+
+    if (nodesCount + BigInt(count) > maxNodes) throw new Error('Will exceed max allowed nodes')
+
+    const data = encodeFunctionData({ abi: STAKER_NODE_COORDINATOR_ABI, functionName: 'createStakerNode' })
+
+    return Array.from({ length: count }, () => ({ to: deployment.stakerNodeCoordinator, value: '0', data }))
+}
+
+/**
+ * Builds the call of `LTM_DelegateNodes`
+ * If no signatures or no salts are given, every node is delegated with an empty signature that never
+ * expires and a zero salt
+ *
+ * @param deployment
+ * @param nodeIds
+ * @param operators
+ * @param signatures
+ * @param salts
+ * @returns
+ */
+export function buildDelegateNodes(
+    deployment: Deployment,
+    nodeIds: string[],
+    operators: string[],
+    signatures: { signature: string; expiry: number | string }[],
+    salts: string[]
+): TaskCall[] {
+    const useDefaults = signatures.length === 0 || salts.length === 0
+
+    const data = encodeFunctionData({
+        abi: LIQUID_TOKEN_MANAGER_ABI,
+        functionName: 'delegateNodes',
+        args: [
+            nodeIds.map(BigInt),
+            operators.map((operator) => getAddress(operator)),
+            useDefaults
+                ? nodeIds.map(() => ({
+                      signature: EMPTY_APPROVER_SIGNATURE.signature,
+                      expiry: BigInt(EMPTY_APPROVER_SIGNATURE.expiry)
+                  }))
+                : signatures.map(({ signature, expiry }) => ({ signature: signature as Hex, expiry: BigInt(expiry) })),
+            useDefaults ? nodeIds.map(() => EMPTY_APPROVER_SALT) : (salts as Hex[])
+        ]
+    })
+
+    return [{ to: deployment.liquidTokenManager, value: '0', data }]
+}
+
+/**
+ * Builds the call of `LTM_StakeAssetsToNode`
+ *
+ * @param deployment
+ * @param nodeId
+ * @param assets
+ * @param amounts
+ * @returns
+ */
+export function buildStakeAssetsToNode(
+    deployment: Deployment,
+    nodeId: string,
+    assets: string[],
+    amounts: string[]
+): TaskCall[] {
+    const data = encodeFunctionData({
+        abi: LIQUID_TOKEN_MANAGER_ABI,
+        functionName: 'stakeAssetsToNode',
+        args: [BigInt(nodeId), assets.map((asset) => getAddress(asset)), amounts.map(BigInt)]
+    })
+
+    return [{ to: deployment.liquidTokenManager, value: '0', data }]
+}
+
+/**
+ * Builds the call of `LTM_StakeAssetsToNodes`
+ *
+ * @param deployment
+ * @param allocations
+ * @returns
+ */
+export function buildStakeAssetsToNodes(
+    deployment: Deployment,
+    allocations: { nodeId: string; assets: string[]; amounts: string[] }[]
+): TaskCall[] {
+    const data = encodeFunctionData({
+        abi: LIQUID_TOKEN_MANAGER_ABI,
+        functionName: 'stakeAssetsToNodes',
+        args: [
+            allocations.map(({ nodeId, assets, amounts }) => ({
+                nodeId: BigInt(nodeId),
+                assets: assets.map((asset) => getAddress(asset)),
+                amounts: amounts.map(BigInt)
+            }))
+        ]
+    })
+
+    return [{ to: deployment.liquidTokenManager, value: '0', data }]
+}
+
+/**
+ * Builds the call of `LTM_UndelegateNodes`
+ *
+ * @param deployment
+ * @param nodeIds
+ * @returns
+ */
+export function buildUndelegateNodes(deployment: Deployment, nodeIds: string[]): TaskCall[] {
+    const data = encodeFunctionData({
+        abi: LIQUID_TOKEN_MANAGER_ABI,
+        functionName: 'undelegateNodes',
+        args: [nodeIds.map(BigInt)]
+    })
+
+    return [{ to: deployment.liquidTokenManager, value: '0', data }]
+}
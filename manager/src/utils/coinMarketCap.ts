@@ -0,0 +1,37 @@
+import { parseUnits } from 'viem'
+import { tracedFetch } from './http'
+
+interface CMCQuotesResponse {
+    data: Record<string, { symbol: string; is_active: number; quote: Record<string, { price: number }> }[]>
+}
+
+const DEFAULT_CMC_API_URL = 'https://pro-api.coinmarketcap.com'
+
+/**
+ * Fetches the price of a token in ETH from CoinMarketCap, in 1e18
+ * Uses the active listing of the symbol. Configured with `CMC_API_KEY` and, optionally, `CMC_API_URL`
+ *
+ * @param symbol
+ * @returns
+ */
+export async function fetchOffChainRate(symbol: string): Promise<bigint> {
+    const apiKey = process.env.CMC_API_KEY
+    if (!apiKey) throw new Error(`No on-chain price for ${symbol} and CMC_API_KEY is not set`)
+
+    const apiUrl = process.env.CMC_API_URL || DEFAULT_CMC_API_URL
+    const response = await tracedFetch(`${apiUrl}/v2/cryptocurrency/quotes/latest?symbol=${symbol}&convert=ETH`, {
+        headers: { 'X-CMC_PRO_API_KEY': apiKey, Accept: 'application/json' }
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${symbol} price: ${response.status} ${response.statusText}`)
+    }
+
+    const { data } = (await response.json()) as CMCQuotesResponse
+    const listing = data[symbol.toUpperCase()]?.find((entry) => entry.is_active === 1)
+    const price = listing?.quote.ETH?.price
+
+    if (!price || price <= 0) throw new Error(`No CoinMarketCap price for ${symbol}`)
+
+    return parseUnits(price.toFixed(18), 18)
+}
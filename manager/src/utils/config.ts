@@ -0,0 +1,337 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { AllocationPolicyConfig } from '../policies/allocation'
+import { type ReservePolicyConfig, validateReservePolicy } from '../policies/reserve'
+import type { AlertFormat, AlertType } from './alerts'
+import type { DataSourceType } from './dataSource'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+export interface ScheduleConfig {
+    cron: string
+    enabled: boolean
+}
+
+export interface RetryConfig {
+    maxRetries: number
+    initialDelay: number // seconds
+    backoffFactor: number
+    maxDelay: number // seconds
+}
+
+export interface MetricsConfig {
+    enabled: boolean // Serve `/healthz` and `/metrics` while the manager runs as a daemon
+    port: number
+    refreshInterval: number // seconds, minimum time between on-chain reads for `/metrics`
+}
+
+export interface OperatorHealthConfig {
+    proposeUndelegation: boolean // Propose `undelegateNodes` for the nodes of unhealthy operators, otherwise only report them
+}
+
+export interface OperatorStrategiesConfig {
+    crossCheck: boolean // Compare the on-chain operator strategies with the EE API and report any disagreement
+}
+
+export interface ProposalsConfig {
+    builder: 'native' | 'forge' // Build forge-backed task calls natively with viem, or with the `/script/tasks` forge scripts
+    bundle: boolean // Pack multi-transaction forge broadcasts into MultiSendCallOnly proposals
+    maxBatchGas: number
+    simulate: boolean // Simulate every proposal from the Safe address and block it on revert
+    ledgerFile: string // Ledger of every proposal made, relative to the `/manager` folder
+}
+
+export interface WebhookConfig {
+    url: string
+    format: AlertFormat // "slack", "discord" or "json"
+    events?: AlertType[] // All events if not set
+}
+
+export interface AlertsConfig {
+    webhooks: WebhookConfig[]
+    dedupWindow: number // seconds, an alert with the same type and key is not sent again within it
+    rateLimit: { max: number; window: number } // Alerts per webhook per `window` seconds
+    unsignedProposalHours: number // Alert on proposals left without enough confirmations for longer
+}
+
+export interface AllocationConfig {
+    default: AllocationPolicyConfig
+    lats: Record<string, AllocationPolicyConfig> // LiquidToken address => policy
+}
+
+export interface DataSourceConfig {
+    default: DataSourceType // "latApi" or "onChain"
+    lats: Record<string, DataSourceType> // LiquidToken address => source
+}
+
+export interface DelegationConfig {
+    approvalsFile: string | null // Delegation approver signatures, relative to the `/manager` folder. See approvals.example.json
+    signatureTtl: number // seconds, expiry of signatures made with the `DELEGATION_APPROVER_*` signer
+}
+
+export interface HotWalletConfig {
+    backend: 'local' | 'defender' // Send price updater transactions from the `PRICE_UPDATER_*` signer or through a Defender Relayer
+    speed: 'safeLow' | 'average' | 'fast' | 'fastest' // Defender only
+    pollInterval: number // seconds, Defender only
+    timeout: number // seconds, Defender only
+}
+
+export interface ProvisioningConfig {
+    default: string[] // Operators each LAT keeps one delegated staker node for
+    lats: Record<string, string[]> // LiquidToken address => operators
+}
+
+export interface ReportsConfig {
+    enabled: boolean
+    dir: string // Relative to the `/manager` folder
+}
+
+export interface ReserveConfig {
+    default: ReservePolicyConfig
+    lats: Record<string, ReservePolicyConfig> // LiquidToken address => policy
+}
+
+export interface ManagerConfig {
+    alerts: AlertsConfig
+    allocation: AllocationConfig
+    dataSource: DataSourceConfig
+    delegation: DelegationConfig
+    hotWallet: HotWalletConfig
+    metrics: MetricsConfig
+    operatorHealth: OperatorHealthConfig
+    operatorStrategies: OperatorStrategiesConfig
+    proposals: ProposalsConfig
+    provisioning: ProvisioningConfig
+    registry: string | null // LAT registry file, relative to the `/manager` folder. Enables multi-LAT mode
+    reports: ReportsConfig
+    reserve: ReserveConfig
+    scheduler: {
+        timezone?: string
+        stateFile: string
+        workflows: Record<string, ScheduleConfig>
+        retry: RetryConfig
+    }
+}
+
+const DEFAULT_CONFIG: ManagerConfig = {
+    alerts: {
+        webhooks: [],
+        dedupWindow: 6 * 60 * 60,
+        rateLimit: { max: 20, window: 60 * 60 },
+        unsignedProposalHours: 24
+    },
+    allocation: {
+        default: { type: 'even' },
+        lats: {}
+    },
+    dataSource: {
+        default: 'latApi',
+        lats: {}
+    },
+    delegation: {
+        approvalsFile: null,
+        signatureTtl: 7 * 24 * 60 * 60
+    },
+    hotWallet: {
+        backend: 'local',
+        speed: 'fast',
+        pollInterval: 5,
+        timeout: 10 * 60
+    },
+    metrics: {
+        enabled: true,
+        port: 9464,
+        refreshInterval: 60
+    },
+    operatorHealth: {
+        proposeUndelegation: false
+    },
+    operatorStrategies: {
+        crossCheck: false
+    },
+    proposals: {
+        builder: 'native',
+        bundle: true,
+        maxBatchGas: 15_000_000,
+        simulate: true,
+        ledgerFile: 'proposal-ledger.jsonl'
+    },
+    provisioning: {
+        default: [],
+        lats: {}
+    },
+    registry: null,
+    reports: {
+        enabled: true,
+        dir: 'reports'
+    },
+    reserve: {
+        default: { buffer: { type: 'percentage', percentage: 0.5 } },
+        lats: {}
+    },
+    scheduler: {
+        stateFile: 'scheduler-state.json',
+        workflows: {
+            refreshDeployment: { cron: '0 0 * * *', enabled: true },
+            reconcileProposals: { cron: '*/10 * * * *', enabled: true },
+            provisionNodes: { cron: '10 0 * * *', enabled: false },
+            updatePrices: { cron: '5 */6 * * *', enabled: true },
+            stakeUnstakedAssets: { cron: '15 0 * * *', enabled: true },
+            monitorOperators: { cron: '30 0 * * *', enabled: true },
+            monitorLat: { cron: '*/15 * * * *', enabled: true },
+            verifyStakes: { cron: '*/10 * * * *', enabled: true }
+        },
+        retry: {
+            maxRetries: 3,
+            initialDelay: 15 * 60,
+            backoffFactor: 2,
+            maxDelay: 2 * 60 * 60
+        }
+    }
+}
+
+let config: ManagerConfig
+
+/**
+ * Returns the manager config, read once from `MANAGER_CONFIG` (defaults to `manager.config.json`)
+ * Any field missing from the file falls back to its default value. Reserve policies are validated on read
+ *
+ * @returns
+ */
+export function getConfig(): ManagerConfig {
+    if (!config) {
+        const configPath = getConfigPath()
+        const fileConfig = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {}
+        const workflows = { ...DEFAULT_CONFIG.scheduler.workflows }
+
+        for (const [name, schedule] of Object.entries(fileConfig.scheduler?.workflows ?? {})) {
+            const defaults = workflows[name] ?? { cron: '', enabled: true }
+            workflows[name] = { ...defaults, ...(schedule as Partial<ScheduleConfig>) }
+        }
+
+        const reserve: ReserveConfig = { ...DEFAULT_CONFIG.reserve, ...fileConfig.reserve }
+
+        const policies = [
+            ['default', reserve.default],
+            ...Object.entries(reserve.lats).map(([address, policy]) => [`lats.${address}`, policy])
+        ] as [string, ReservePolicyConfig][]
+
+        for (const [key, policy] of policies) {
+            try {
+                validateReservePolicy(policy)
+            } catch (error) {
+                throw new Error(`Invalid manager config: reserve.${key} is invalid: ${error.message}`)
+            }
+        }
+
+        config = {
+            ...DEFAULT_CONFIG,
+            ...fileConfig,
+            alerts: {
+                ...DEFAULT_CONFIG.alerts,
+                ...fileConfig.alerts,
+                rateLimit: { ...DEFAULT_CONFIG.alerts.rateLimit, ...fileConfig.alerts?.rateLimit }
+            },
+            allocation: { ...DEFAULT_CONFIG.allocation, ...fileConfig.allocation },
+            dataSource: { ...DEFAULT_CONFIG.dataSource, ...fileConfig.dataSource },
+            delegation: { ...DEFAULT_CONFIG.delegation, ...fileConfig.delegation },
+            hotWallet: { ...DEFAULT_CONFIG.hotWallet, ...fileConfig.hotWallet },
+            metrics: { ...DEFAULT_CONFIG.metrics, ...fileConfig.metrics },
+            operatorHealth: { ...DEFAULT_CONFIG.operatorHealth, ...fileConfig.operatorHealth },
+            operatorStrategies: { ...DEFAULT_CONFIG.operatorStrategies, ...fileConfig.operatorStrategies },
+            proposals: { ...DEFAULT_CONFIG.proposals, ...fileConfig.proposals },
+            provisioning: { ...DEFAULT_CONFIG.provisioning, ...fileConfig.provisioning },
+            reports: { ...DEFAULT_CONFIG.reports, ...fileConfig.reports },
+            reserve,
+            scheduler: {
+                ...DEFAULT_CONFIG.scheduler,
+                ...fileConfig.scheduler,
+                workflows,
+                retry: { ...DEFAULT_CONFIG.scheduler.retry, ...fileConfig.scheduler?.retry }
+            }
+        }
+    }
+
+    return config
+}
+
+/**
+ * Returns the allocation policy config for a LAT, falling back to the default policy
+ *
+ * @param liquidTokenAddress
+ * @returns
+ */
+export function getAllocationPolicyConfig(liquidTokenAddress: string): AllocationPolicyConfig {
+    const { allocation } = getConfig()
+    const entry = Object.entries(allocation.lats).find(
+        ([address]) => address.toLowerCase() === liquidTokenAddress.toLowerCase()
+    )
+
+    return entry ? entry[1] : allocation.default
+}
+
+/**
+ * Returns the reserve policy config for a LAT, falling back to the default policy
+ *
+ * @param liquidTokenAddress
+ * @returns
+ */
+export function getReservePolicyConfig(liquidTokenAddress: string): ReservePolicyConfig {
+    const { reserve } = getConfig()
+    const entry = Object.entries(reserve.lats).find(
+        ([address]) => address.toLowerCase() === liquidTokenAddress.toLowerCase()
+    )
+
+    return entry ? entry[1] : reserve.default
+}
+
+/**
+ * Returns the source a LAT's staking data is read from, falling back to the default source
+ *
+ * @param liquidTokenAddress
+ * @returns
+ */
+export function getDataSourceType(liquidTokenAddress: string): DataSourceType {
+    const { dataSource } = getConfig()
+    const entry = Object.entries(dataSource.lats).find(
+        ([address]) => address.toLowerCase() === liquidTokenAddress.toLowerCase()
+    )
+
+    return entry ? entry[1] : dataSource.default
+}
+
+/**
+ * Returns the operators a LAT keeps delegated staker nodes for, falling back to the default operators
+ *
+ * @param liquidTokenAddress
+ * @returns
+ */
+export function getProvisioningOperators(liquidTokenAddress: string): string[] {
+    const { provisioning } = getConfig()
+    const entry = Object.entries(provisioning.lats).find(
+        ([address]) => address.toLowerCase() === liquidTokenAddress.toLowerCase()
+    )
+
+    return entry ? entry[1] : provisioning.default
+}
+
+/**
+ * Returns the absolute path of the manager config file
+ *
+ * @returns
+ */
+export function getConfigPath(): string {
+    return path.resolve(__dirname, '../..', process.env.MANAGER_CONFIG || 'manager.config.json')
+}
+
+/**
+ * Resolves a path from the config relative to the `/manager` folder
+ *
+ * @param filePath
+ * @returns
+ */
+export function resolveConfigPath(filePath: string): string {
+    return path.resolve(__dirname, '../..', filePath)
+}
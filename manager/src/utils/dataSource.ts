@@ -0,0 +1,224 @@
+import type { Address } from 'viem'
+import { parseAbi } from 'viem/utils'
+import type { AllocationNode, AllocationTokenInfo } from '../policies/allocation'
+import type { Deployment } from './deployment'
+import { tracedFetch } from './http'
+import { getStakerNodes } from './nodes'
+import { getViemClient } from './viemClient'
+
+export const DATA_SOURCE_TYPES = ['latApi', 'onChain'] as const
+
+export type DataSourceType = (typeof DATA_SOURCE_TYPES)[number]
+
+export interface AssetBalance {
+    asset: string
+    balance: string // Unstaked, held by the `LiquidToken`
+    queuedBalance: string
+}
+
+export interface DataSource {
+    name: DataSourceType
+    getAssetBalances(): Promise<AssetBalance[]>
+    getStakerNodes(): Promise<AllocationNode[]>
+    getTokens(): Promise<AllocationTokenInfo[]>
+}
+
+interface LATResponse {
+    address: string
+    assets: AssetBalance[]
+}
+
+interface TokensResponse {
+    data: AllocationTokenInfo[]
+}
+
+interface StakerNodesResponse {
+    stakerNodes: AllocationNode[]
+}
+
+const LIQUID_TOKEN_MANAGER_ABI = parseAbi([
+    'function getSupportedTokens() view returns (address[])',
+    'struct TokenInfo { uint256 decimals; uint256 pricePerUnit; uint256 volatilityThreshold; }',
+    'function getTokenInfo(address token) view returns (TokenInfo)',
+    'function getTokenStrategy(address asset) view returns (address)'
+])
+
+const LIQUID_TOKEN_ABI = parseAbi([
+    'function balanceAssets(address[] assetList) view returns (uint256[])',
+    'function balanceQueuedAssets(address[] assetList) view returns (uint256[])'
+])
+
+/**
+ * Returns the source a workflow reads a LAT's balances, staker nodes and tokens from
+ *
+ * @param type
+ * @param deployment
+ * @returns
+ */
+export function createDataSource(type: DataSourceType, deployment: Deployment): DataSource {
+    switch (type) {
+        case 'latApi':
+            return createLatApiDataSource(deployment)
+        case 'onChain':
+            return createOnChainDataSource(deployment)
+        default:
+            throw new Error(`Unknown data source: ${type}`)
+    }
+}
+
+/**
+ * Source: The LAT API at `LAT_API_URL`
+ *
+ * @param deployment
+ * @returns
+ */
+export function createLatApiDataSource(deployment: Deployment): DataSource {
+    const latApiUrl = process.env.LAT_API_URL
+
+    return {
+        name: 'latApi',
+        getAssetBalances: async () => {
+            const response = await tracedFetch(`${latApiUrl}/lat/${deployment.liquidToken}`, {}, { sendRunId: true })
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch LAT data: ${response.status} ${response.statusText}`)
+            }
+
+            return ((await response.json()) as LATResponse).assets
+        },
+        getStakerNodes: async () => {
+            const response = await tracedFetch(
+                `${latApiUrl}/lat/${deployment.liquidToken}/staker-nodes`,
+                {},
+                { sendRunId: true }
+            )
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch staker nodes: ${response.status} ${response.statusText}`)
+            }
+
+            return ((await response.json()) as StakerNodesResponse).stakerNodes
+        },
+        getTokens: async () => {
+            const response = await tracedFetch(
+                `${latApiUrl}/lat/${deployment.liquidToken}/tokens`,
+                {},
+                { sendRunId: true }
+            )
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch token data: ${response.status} ${response.statusText}`)
+            }
+
+            return ((await response.json()) as TokensResponse).data
+        }
+    }
+}
+
+/**
+ * Source: The LAT contracts, read through multicall
+ *
+ * @param deployment
+ * @returns
+ */
+export function createOnChainDataSource(deployment: Deployment): DataSource {
+    const viemClient = getViemClient()
+
+    const getSupportedTokens = () =>
+        viemClient.readContract({
+            address: deployment.liquidTokenManager,
+            abi: LIQUID_TOKEN_MANAGER_ABI,
+            functionName: 'getSupportedTokens'
+        })
+
+    return {
+        name: 'onChain',
+        getAssetBalances: async () => {
+            const tokens = await getSupportedTokens()
+            const [balances, queuedBalances] = await viemClient.multicall({
+                contracts: [
+                    {
+                        address: deployment.liquidToken,
+                        abi: LIQUID_TOKEN_ABI,
+                        functionName: 'balanceAssets',
+                        args: [tokens]
+                    },
+                    {
+                        address: deployment.liquidToken,
+                        abi: LIQUID_TOKEN_ABI,
+                        functionName: 'balanceQueuedAssets',
+                        args: [tokens]
+                    }
+                ],
+                allowFailure: false
+            })
+
+            return toAssetBalances(tokens, balances, queuedBalances)
+        },
+        getStakerNodes: async () => (await getStakerNodes(deployment)).nodes,
+        getTokens: async () => {
+            const tokens = await getSupportedTokens()
+            const results = await viemClient.multicall({
+                contracts: tokens.flatMap((token) => [
+                    {
+                        address: deployment.liquidTokenManager,
+                        abi: LIQUID_TOKEN_MANAGER_ABI,
+                        functionName: 'getTokenInfo',
+                        args: [token]
+                    } as const,
+                    {
+                        address: deployment.liquidTokenManager,
+                        abi: LIQUID_TOKEN_MANAGER_ABI,
+                        functionName: 'getTokenStrategy',
+                        args: [token]
+                    } as const
+                ]),
+                allowFailure: false
+            })
+
+            return toTokenInfos(tokens, results)
+        }
+    }
+}
+
+/**
+ * Pairs each token with its balance and queued balance, read with `balanceAssets` and `balanceQueuedAssets`
+ *
+ * @param tokens
+ * @param balances
+ * @param queuedBalances
+ * @returns
+ */
+export function toAssetBalances(
+    tokens: readonly string[],
+    balances: readonly bigint[],
+    queuedBalances: readonly bigint[]
+): AssetBalance[] {
+    return tokens.map((asset, index) => ({
+        asset,
+        balance: balances[index].toString(),
+        queuedBalance: queuedBalances[index].toString()
+    }))
+}
+
+/**
+ * Maps the multicall results of `getTokens` to each token's info
+ * Results are interleaved, `getTokenInfo` then `getTokenStrategy` for every token
+ *
+ * @param tokens
+ * @param results
+ * @returns
+ */
+export function toTokenInfos(tokens: readonly string[], results: readonly unknown[]): AllocationTokenInfo[] {
+    return tokens.map((address, index) => {
+        const info = results[index * 2] as { decimals: bigint; pricePerUnit: bigint }
+        const strategy = results[index * 2 + 1] as Address
+
+        return {
+            address,
+            strategyAddress: strategy,
+            decimals: Number(info.decimals),
+            pricePerUnit: info.pricePerUnit.toString()
+        }
+    })
+}
@@ -0,0 +1,103 @@
+import type { Hex } from 'viem'
+import { concat, decodeFunctionData, encodePacked, getAddress, hexToBigInt, hexToNumber, size, slice } from 'viem/utils'
+import { LAT_ABI } from './abis'
+
+export interface RawCall {
+    to: string
+    value: string
+    data: Hex
+    operation: number
+}
+
+export interface DecodedCall extends RawCall {
+    functionName: string | null
+    args: readonly unknown[] | null
+}
+
+/**
+ * Decodes a Safe transaction into the calls it makes against the LAT contracts
+ * `multiSend` transactions are unwrapped into one entry per inner call
+ *
+ * @param call
+ * @returns
+ */
+export function decodeSafeCalls(call: RawCall): DecodedCall[] {
+    const decoded = decodeCall(call)
+
+    if (decoded.functionName === 'multiSend' && decoded.args) {
+        return unpackMultiSend(decoded.args[0] as Hex).map(decodeCall)
+    }
+
+    return [decoded]
+}
+
+/**
+ * Decodes a single call against the LAT contract ABIs
+ * Unknown calldata is returned with a `null` function name
+ *
+ * @param call
+ * @returns
+ */
+export function decodeCall(call: RawCall): DecodedCall {
+    if (!call.data || call.data === '0x') return { ...call, functionName: null, args: null }
+
+    try {
+        const { functionName, args } = decodeFunctionData({ abi: LAT_ABI, data: call.data })
+        return { ...call, functionName, args: args ?? [] }
+    } catch {
+        return { ...call, functionName: null, args: null }
+    }
+}
+
+/**
+ * Unpacks the `transactions` bytes of a `multiSend` call
+ * Each transaction is packed as operation (1) | to (20) | value (32) | data length (32) | data
+ *
+ * @param transactions
+ * @returns
+ */
+export function unpackMultiSend(transactions: Hex): RawCall[] {
+    const calls: RawCall[] = []
+    const total = size(transactions)
+    let offset = 0
+
+    while (offset < total) {
+        const operation = hexToNumber(slice(transactions, offset, offset + 1))
+        const to = getAddress(slice(transactions, offset + 1, offset + 21))
+        const value = hexToBigInt(slice(transactions, offset + 21, offset + 53)).toString()
+        const dataLength = hexToNumber(slice(transactions, offset + 53, offset + 85))
+        const data = dataLength > 0 ? slice(transactions, offset + 85, offset + 85 + dataLength) : '0x'
+
+        calls.push({ to, value, data, operation })
+        offset += 85 + dataLength
+    }
+
+    return calls
+}
+
+/**
+ * Packs calls into the `transactions` bytes of a `multiSend` call
+ *
+ * @param calls
+ * @returns
+ */
+export function packMultiSend(calls: RawCall[]): Hex {
+    return concat(
+        calls.map((call) =>
+            encodePacked(
+                ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+                [call.operation, getAddress(call.to), BigInt(call.value), BigInt(size(call.data)), call.data]
+            )
+        )
+    )
+}
+
+/**
+ * Serializes decoded args for display, converting bigints to strings
+ *
+ * @param args
+ * @returns
+ */
+export function formatArgs(args: readonly unknown[] | null): string {
+    return JSON.stringify(args, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+}
@@ -0,0 +1,150 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { Address } from 'viem'
+import { getAddress, isAddress } from 'viem/utils'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+export interface DeploymentToken {
+    address: Address
+    strategy: Address
+}
+
+export interface Deployment {
+    outputFile: string // Relative to `script/outputs`, passed to forge tasks
+    chainId: number
+    liquidToken: Address
+    liquidTokenManager: Address
+    stakerNodeCoordinator: Address
+    tokenRegistryOracle: Address
+    admin: Address // Admin multisig
+    pauser: Address // Pauser multisig
+    priceUpdater: Address
+    avs: Address | null
+    tokens: DeploymentToken[]
+}
+
+export interface DeploymentSource {
+    repo?: string // `<owner>/<repo>/<path>` of the Github deployments folder, if the data is fetched from Github
+    outputFile: string // Relative to `script/outputs`
+}
+
+/**
+ * Reads and validates a deployment data file from `script/outputs`
+ *
+ * @param outputFile
+ * @returns
+ */
+export async function loadDeployment(outputFile: string): Promise<Deployment> {
+    const filePath = path.join(__dirname, '../../../script/outputs', outputFile)
+
+    let data: unknown
+    try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+        throw new Error(`Failed to read deployment data ${outputFile}: ${error.message}`)
+    }
+
+    return parseDeployment(data, outputFile)
+}
+
+/**
+ * Validates deployment data written by the deploy scripts and returns it with checksummed addresses
+ * Throws an error naming the first missing or malformed field
+ *
+ * @param data
+ * @param outputFile
+ * @returns
+ */
+export function parseDeployment(data: unknown, outputFile: string): Deployment {
+    const field = (fieldPath: string) => readField(data, fieldPath, outputFile)
+    const address = (fieldPath: string) => toAddress(field(fieldPath), fieldPath, outputFile)
+
+    const chainId = Number(field('chainId'))
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+        throw invalidField('chainId', 'is not a valid chain ID', outputFile)
+    }
+
+    const rawTokens = readField(data, 'tokens', outputFile, true) ?? []
+    if (typeof rawTokens !== 'object') throw invalidField('tokens', 'is not a list', outputFile)
+
+    // Foundry serializes the token list as an object keyed by index
+    const tokens = Object.keys(rawTokens as object).map((index) => ({
+        address: address(`tokens.${index}.address`),
+        strategy: address(`tokens.${index}.strategy`)
+    }))
+
+    const avs = readField(data, 'avsAddress', outputFile, true)
+
+    return {
+        outputFile,
+        chainId,
+        liquidToken: address('proxyAddress'),
+        liquidTokenManager: address('contractDeployments.proxy.liquidTokenManager.address'),
+        stakerNodeCoordinator: address('contractDeployments.proxy.stakerNodeCoordinator.address'),
+        tokenRegistryOracle: address('contractDeployments.proxy.tokenRegistryOracle.address'),
+        admin: address('roles.admin'),
+        pauser: address('roles.pauser'),
+        priceUpdater: address('roles.priceUpdater'),
+        avs: avs === undefined ? null : toAddress(avs, 'avsAddress', outputFile),
+        tokens
+    }
+}
+
+/**
+ * Returns the address of a deployment's admin or pauser multisig
+ *
+ * @param deployment
+ * @param multisig
+ * @returns
+ */
+export function getMultisigAddress(deployment: Deployment, multisig: 'admin' | 'pauser'): Address {
+    return multisig === 'admin' ? deployment.admin : deployment.pauser
+}
+
+/**
+ * Returns whether an address is one of the deployment's LAT contracts
+ *
+ * @param deployment
+ * @param address
+ * @returns
+ */
+export function isContractOurs(deployment: Deployment, address: string): boolean {
+    return [
+        deployment.liquidToken,
+        deployment.liquidTokenManager,
+        deployment.stakerNodeCoordinator,
+        deployment.tokenRegistryOracle
+    ].some((contract) => contract.toLowerCase() === address.toLowerCase())
+}
+
+// --- Helper functions ---
+
+function readField(data: unknown, fieldPath: string, outputFile: string, optional = false): unknown {
+    let value: unknown = data
+
+    for (const key of fieldPath.split('.')) {
+        value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+    }
+
+    if (value === undefined || value === null || value === '') {
+        if (optional) return undefined
+        throw new Error(`Invalid deployment data ${outputFile}: missing ${fieldPath}`)
+    }
+
+    return value
+}
+
+function toAddress(value: unknown, fieldPath: string, outputFile: string): Address {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+        throw invalidField(fieldPath, `is not an address: ${JSON.stringify(value)}`, outputFile)
+    }
+
+    return getAddress(value)
+}
+
+function invalidField(fieldPath: string, reason: string, outputFile: string): Error {
+    return new Error(`Invalid deployment data ${outputFile}: ${fieldPath} ${reason}`)
+}
@@ -0,0 +1,73 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { type DecodedCall, formatArgs } from './decode'
+import { createLogger } from './logger'
+
+export interface DryRunRecord {
+    title: string
+    description: string
+    multisig: 'admin' | 'pauser'
+    safeAddress: string
+    nonce: number
+    safeTxHash: string
+    calls: DecodedCall[]
+}
+
+let dryRun = process.env.DRY_RUN === 'true'
+let outputFile = process.env.DRY_RUN_OUTPUT || ''
+
+const records: DryRunRecord[] = []
+
+const dryRunLog = createLogger('DryRun')
+
+/**
+ * Returns whether proposals should be printed instead of sent to the Safe
+ * Enabled by `DRY_RUN=true` or the `--dry-run` flag
+ *
+ * @returns
+ */
+export function isDryRun(): boolean {
+    return dryRun
+}
+
+/**
+ * Enables or disables dry-run mode, optionally writing all records to a JSON file
+ *
+ * @param enabled
+ * @param output
+ */
+export function setDryRun(enabled: boolean, output?: string) {
+    dryRun = enabled
+    if (output !== undefined) outputFile = output
+}
+
+/**
+ * Prints a proposal that would have been made and appends it to the output file, if set
+ *
+ * @param record
+ */
+export async function reportDryRun(record: DryRunRecord) {
+    records.push(record)
+
+    dryRunLog.info(record.title)
+    dryRunLog.info(`  safe: ${record.safeAddress} (${record.multisig})`)
+    dryRunLog.info(`  nonce: ${record.nonce}`)
+    dryRunLog.info(`  safeTxHash: ${record.safeTxHash}`)
+
+    for (const [index, call] of record.calls.entries()) {
+        dryRunLog.info(`  call ${index + 1}: to ${call.to}, value ${call.value}`)
+        dryRunLog.info(
+            call.functionName
+                ? `    ${call.functionName}(${formatArgs(call.args).slice(1, -1)})`
+                : `    unknown selector ${call.data.slice(0, 10)}`
+        )
+    }
+
+    if (outputFile) {
+        const filePath = path.resolve(process.cwd(), outputFile)
+        await fs.writeFile(
+            filePath,
+            JSON.stringify(records, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2)
+        )
+    }
+}
@@ -1,57 +1,99 @@
 import 'dotenv/config'
 
-import { type MetaTransactionData, type SafeTransaction, OperationType } from '@safe-global/types-kit'
-import { apiKit, protocolKitOwnerAdmin, protocolKitOwnerPauser } from './safe'
-import { fileURLToPath } from 'node:url'
+import {
+    type MetaTransactionData,
+    type SafeMultisigTransactionResponse,
+    type SafeTransaction,
+    OperationType
+} from '@safe-global/types-kit'
+import type { Hex } from 'viem'
+import { apiKit, getProtocolKit } from './safe'
+import { type Deployment, getMultisigAddress } from './deployment'
+import { decodeSafeCalls } from './decode'
+import { isDryRun, reportDryRun } from './dryRun'
+import { type ProposalsConfig, getConfig } from './config'
+import { getRevertReason, simulateSafeCalls, simulateSafeTransaction } from './simulate'
+import type { TaskCall } from './builders'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+import { getViemClient } from './viemClient'
+import { signSafeTxHash } from './signers'
+import { createLogger } from './logger'
+import { findOpenLedgerEntry, recordLedgerEntry } from './ledger'
+import { getRunId, getRunReport, recordProposal, step } from './run'
+import { exec } from 'node:child_process'
+import { promisify } from 'node:util'
 import { getAddress } from 'viem/utils'
 import fs from 'node:fs/promises'
-import path from 'node:path'
 
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = path.dirname(__filename)
+const execAsync = promisify(exec)
+
+const log = createLogger('Forge')
+const proposalLog = createLogger('Proposal')
 
 export const NETWORK = getNetwork()
 export const DEPLOYMENT = getDeployment()
 
-export const SIGNER_ADMIN = process.env.SIGNER_ADMIN_PUBLIC_KEY
-export const SIGNER_PAUSER = process.env.SIGNER_PAUSER_PUBLIC_KEY
-
-export let LIQUID_TOKEN_ADDRESS = ''
-export let LIQUID_TOKEN_MANAGER_ADDRESS = ''
-export let STAKER_NODE_COORDINATOR_ADDRESS = ''
-export let TOKEN_REGISTRY_ORACLE_ADDRESS = ''
-export let PRICE_UPDATER = ''
-export let ADMIN = process.env.MULTISIG_ADMIN_PUBLIC_KEY // Updates from deployment data if not local
-export let PAUSER = process.env.MULTISIG_PAUSER_PUBLIC_KEY // Updates from deployment data if not local
+// Transactions already simulated together with the rest of their broadcast
+const simulatedTransactions = new WeakSet<SafeTransaction>()
 
 /**
  * Returns the forge command used to call a task from the /script folder
  *
+ * @param deployment
  * @param task
  * @param sender
  * @param sig
  * @param params
  * @returns
  */
-export function forgeCommand(task: string, sender: string, sig: string, params: string): string {
-    return `forge script ../script/tasks/${task} --rpc-url ${getRpcUrl()} --json --sender ${sender} --sig '${sig}' -- ${getOutputFile()} ${params} -vvvv`
+export function forgeCommand(
+    deployment: Deployment,
+    task: string,
+    sender: string,
+    sig: string,
+    params: string
+): string {
+    return `forge script ../script/tasks/${task} --rpc-url ${getRpcUrl()} --json --sender ${sender} --sig '${sig}' -- ${deployment.outputFile} ${params} -vvvv`
 }
 
 /**
- * Creates a set of transactions ready to be proposed to a gnosis safe
+ * Runs a task from the /script folder with forge, as a step of the current run
+ * The run ID is passed to forge as `MANAGER_RUN_ID`
  *
- * @param stdout
+ * @param deployment
+ * @param task
+ * @param sender
+ * @param sig
+ * @param params
  * @returns
  */
-export async function createSafeTransactions(
-    stdout: string,
-    to: 'admin' | 'pauser' = 'admin'
-): Promise<SafeTransaction[]> {
-    const multisigAddress = to === 'admin' ? ADMIN : PAUSER
+export async function execForge(deployment: Deployment, task: string, sender: string, sig: string, params: string) {
+    const command = forgeCommand(deployment, task, sender, sig, params)
 
-    if (!multisigAddress) throw new Error('Env vars not set correctly.')
+    return step(`forge ${task}`, async () => {
+        log.debug(command)
+        return execAsync(command, { env: { ...process.env, MANAGER_RUN_ID: getRunId() ?? '' } })
+    })
+}
 
-    const protocolKitOwner = to === 'admin' ? protocolKitOwnerAdmin : protocolKitOwnerPauser
+/**
+ * Runs a task from the /script folder with forge and returns the calls it broadcast
+ *
+ * @param deployment
+ * @param task
+ * @param sender
+ * @param sig
+ * @param params
+ * @returns
+ */
+export async function forgeCalls(
+    deployment: Deployment,
+    task: string,
+    sender: string,
+    sig: string,
+    params: string
+): Promise<TaskCall[]> {
+    const { stdout } = await execForge(deployment, task, sender, sig, params)
 
     const broadcastMatch = stdout.match(/"transactions":"([^"]+)"/)
 
@@ -63,69 +105,239 @@ export async function createSafeTransactions(
 
     if (!transactions || !Array.isArray(transactions)) throw new Error('No transactions found')
 
+    return transactions.map((tx) => ({
+        to: getAddress(tx.transaction.to),
+        value: Number.parseInt(tx.transaction.value, 16).toString(),
+        data: tx.transaction.input,
+        gas: tx.transaction.gas ? BigInt(tx.transaction.gas) : 0n
+    }))
+}
+
+/**
+ * Returns whether forge-backed tasks build their calls with the forge scripts instead of natively
+ *
+ * @returns
+ */
+export function useForgeBuilder(): boolean {
+    return getConfig().proposals.builder === 'forge'
+}
+
+/**
+ * Creates a set of transactions ready to be proposed to a gnosis safe
+ * By default, all calls are bundled into MultiSendCallOnly transactions so they execute
+ * all-or-nothing, split into chunks whose summed gas stays under `proposals.maxBatchGas`
+ *
+ * @param deployment
+ * @param calls
+ * @param to
+ * @param options
+ * @returns
+ */
+export async function createSafeTransactions(
+    deployment: Deployment,
+    calls: TaskCall[],
+    to: 'admin' | 'pauser' = 'admin',
+    options: Partial<ProposalsConfig> = {}
+): Promise<SafeTransaction[]> {
+    if (calls.length === 0) throw new Error('No transactions found')
+
+    const multisigAddress = getMultisigAddress(deployment, to)
+    const protocolKitOwner = await getProtocolKit(multisigAddress)
+    const { bundle, maxBatchGas, simulate } = { ...getConfig().proposals, ...options }
+
+    const metaTransactions = await Promise.all(
+        calls.map(async (call) => ({
+            gas: bundle && calls.length > 1 ? (call.gas ?? (await estimateCallGas(call, multisigAddress))) : 0n,
+            data: {
+                to: getAddress(call.to),
+                value: call.value,
+                data: call.data,
+                operation: OperationType.Call
+            } as MetaTransactionData
+        }))
+    )
+
+    const batches = bundle
+        ? chunkByGas(metaTransactions, (tx) => tx.gas, BigInt(maxBatchGas))
+        : metaTransactions.map((tx) => [tx])
+
+    // Later batches may depend on earlier ones, so all calls are simulated in order
+    if (simulate && batches.length > 1) {
+        await simulateSafeCalls(
+            metaTransactions.map((tx) => ({ ...tx.data, data: tx.data.data as Hex, operation: OperationType.Call })),
+            multisigAddress,
+            protocolKitOwner.getMultiSendCallOnlyAddress()
+        )
+    }
+
     const safeTransactions: SafeTransaction[] = []
 
     let nonce = Number(await apiKit.getNextNonce(multisigAddress))
 
-    for (const tx of transactions) {
-        const metaTransactionData: MetaTransactionData = {
-            to: getAddress(tx.transaction.to),
-            value: Number.parseInt(tx.transaction.value, 16).toString(),
-            data: tx.transaction.input,
-            operation: OperationType.Call
-        }
-
+    for (const batch of batches) {
         const safeTransaction = await protocolKitOwner.createTransaction({
-            transactions: [metaTransactionData],
+            transactions: batch.map((tx) => tx.data),
+            onlyCalls: true,
             options: { nonce: nonce++ }
         })
 
         safeTransactions.push(safeTransaction)
+        if (simulate && batches.length > 1) simulatedTransactions.add(safeTransaction)
     }
 
     return safeTransactions
 }
 
 /**
- * Proposes a transaction to the gnosis safe
+ * Splits items into ordered chunks whose summed gas stays within `maxGas`
+ * An item that alone exceeds `maxGas` gets a chunk of its own
  *
+ * @param items
+ * @param gasOf
+ * @param maxGas
+ * @returns
+ */
+export function chunkByGas<T>(items: T[], gasOf: (item: T) => bigint, maxGas: bigint): T[][] {
+    const chunks: T[][] = []
+    let current: T[] = []
+    let currentGas = 0n
+
+    for (const item of items) {
+        const gas = gasOf(item)
+
+        if (current.length > 0 && currentGas + gas > maxGas) {
+            chunks.push(current)
+            current = []
+            currentGas = 0n
+        }
+
+        current.push(item)
+        currentGas += gas
+    }
+
+    if (current.length > 0) chunks.push(current)
+
+    return chunks
+}
+
+/**
+ * Proposes a transaction to the gnosis safe and records it in the proposal ledger
+ * The transaction is simulated from the Safe address first, and a revert blocks the proposal
+ * A transaction the ledger holds an open proposal for is not proposed again
+ * Staking proposals pass the allocations they were planned with, so they are verified once executed
+ * In dry-run mode, the decoded transaction is printed instead of proposed
+ *
+ * @param deployment
  * @param safeTransaction
  * @param origin
+ * @param to
+ * @param plan
  * @returns
  */
 export async function proposeSafeTransaction(
+    deployment: Deployment,
     safeTransaction: SafeTransaction,
     origin: { title: string; description: string },
-    to: 'admin' | 'pauser' = 'admin'
+    to: 'admin' | 'pauser' = 'admin',
+    plan?: NodeAllocation[]
 ) {
-    const multisigAddress = to === 'admin' ? ADMIN : PAUSER
-    const signerAddress = to === 'admin' ? SIGNER_ADMIN : SIGNER_PAUSER
+    const multisigAddress = getMultisigAddress(deployment, to)
+    const protocolKitOwner = await getProtocolKit(multisigAddress)
+    const transaction = {
+        to: safeTransaction.data.to,
+        value: safeTransaction.data.value,
+        data: safeTransaction.data.data as Hex,
+        operation: safeTransaction.data.operation
+    }
 
-    if (!multisigAddress || !signerAddress) throw new Error('Env vars not set correctly.')
+    const existing = await findOpenLedgerEntry(multisigAddress, transaction)
+    if (existing) {
+        proposalLog.warn(
+            `${origin.title}: same transaction already proposed at ${to} nonce ${existing.nonce} (${existing.status}). Skipping...`,
+            { safeTxHash: existing.safeTxHash }
+        )
+        return
+    }
 
-    const protocolKitOwner = to === 'admin' ? protocolKitOwnerAdmin : protocolKitOwnerPauser
+    if (getConfig().proposals.simulate && !simulatedTransactions.has(safeTransaction)) {
+        await simulateSafeTransaction(safeTransaction, multisigAddress, protocolKitOwner.getMultiSendCallOnlyAddress())
+    }
 
     const safeTxHash = await protocolKitOwner.getTransactionHash(safeTransaction)
-    const senderSignature = await protocolKitOwner.signHash(safeTxHash)
+    const proposal = {
+        title: origin.title,
+        multisig: to,
+        safeAddress: multisigAddress,
+        nonce: Number(safeTransaction.data.nonce),
+        safeTxHash
+    }
+
+    // Print the decoded proposal instead of sending it
+    if (isDryRun()) {
+        await reportDryRun({
+            ...origin,
+            multisig: to,
+            safeAddress: multisigAddress,
+            nonce: proposal.nonce,
+            safeTxHash,
+            calls: decodeSafeCalls(transaction)
+        })
+        recordProposal({ ...proposal, dryRun: true })
+        return
+    }
+
+    const { signer, signature } = await signSafeTxHash(to, safeTxHash as Hex)
 
     await apiKit.proposeTransaction({
         safeAddress: multisigAddress,
         safeTransactionData: safeTransaction.data,
         safeTxHash,
-        senderAddress: signerAddress,
-        senderSignature: senderSignature.data,
-        origin: JSON.stringify(origin)
+        senderAddress: signer,
+        senderSignature: signature,
+        origin: JSON.stringify({ ...origin, runId: getRunId() })
+    })
+    recordProposal({ ...proposal, dryRun: false })
+    await recordLedgerEntry({
+        ...proposal,
+        description: origin.description,
+        workflow: getRunReport()?.name ?? null,
+        runId: getRunId() ?? null,
+        transaction,
+        plan
     })
 
     await new Promise((resolve) => setTimeout(resolve, 1000))
 
     const pendingTransactions = (await apiKit.getPendingTransactions(multisigAddress)).results
 
-    console.log(`[Proposal] ${origin.title}: pending proposals: ${pendingTransactions?.length || 0}`)
+    proposalLog.info(`${origin.title}: pending proposals: ${pendingTransactions?.length || 0}`, {
+        safeTxHash,
+        nonce: proposal.nonce
+    })
 }
 
 // --- Helper functions ---
 
+/**
+ * Estimates the gas used by a call made from the Safe
+ *
+ * @param call
+ * @param safeAddress
+ * @returns
+ */
+async function estimateCallGas(call: TaskCall, safeAddress: string): Promise<bigint> {
+    try {
+        return await getViemClient().estimateGas({
+            account: getAddress(safeAddress),
+            to: getAddress(call.to),
+            value: BigInt(call.value),
+            data: call.data
+        })
+    } catch (error) {
+        throw new Error(`Simulation reverted: ${getRevertReason(error)}`)
+    }
+}
+
 /**
  * Returns whether the deployment is local or public (testnet/mainnet)
  * Defaults to public if `DEPLOYMENT` env var not set
@@ -175,43 +387,28 @@ export function getOutputFile(): string {
 }
 
 /**
- * Returns the deployment data file
- * Defaults to mainnet if local deployment & `NETWORK` env var not set, public if `DEPLOYMENT` env var not set
+ * Returns all pending transaction proposals for the given multisig, newest first
+ * Pages through the transaction service until every proposal is fetched
  *
+ * @param deployment
+ * @param multisig
  * @returns
  */
-export async function refreshDeploymentAddresses() {
-    const output = await JSON.parse(
-        await fs.readFile(path.resolve(__dirname, `../../../script/outputs${getOutputFile()}`), 'utf8')
-    )
+export async function getPendingProposals(deployment: Deployment, multisig: 'admin' | 'pauser' = 'admin') {
+    const multisigAddress = getMultisigAddress(deployment, multisig)
 
-    LIQUID_TOKEN_ADDRESS = String(output.proxyAddress)
-    LIQUID_TOKEN_MANAGER_ADDRESS = String(output.contractDeployments.proxy.liquidTokenManager.address)
-    STAKER_NODE_COORDINATOR_ADDRESS = String(output.contractDeployments.proxy.stakerNodeCoordinator.address)
-    TOKEN_REGISTRY_ORACLE_ADDRESS = String(output.contractDeployments.proxy.tokenRegistryOracle.address)
-    ADMIN = String(output.roles.admin)
-    PAUSER = String(output.roles.pauser)
-    PRICE_UPDATER = String(output.roles.priceUpdater)
-}
+    const limit = 100
+    const proposals: SafeMultisigTransactionResponse[] = []
 
-/**
- * Returns all pending transaction proposals for the given multisig
- *
- * @param multisig
- * @returns
- */
-export async function getPendingProposals(multisig: 'admin' | 'pauser' = 'admin') {
-    const multisigAddress = multisig === 'admin' ? ADMIN : PAUSER
+    while (true) {
+        const { results, next } = await apiKit.getPendingTransactions(multisigAddress, {
+            limit,
+            offset: proposals.length
+        })
+        proposals.push(...results)
 
-    if (!multisigAddress) throw new Error('Env vars not set correctly.')
-    return (await apiKit.getPendingTransactions(multisigAddress)).results
-}
+        if (!next || results.length < limit) break
+    }
 
-export function isContractOurs(address: string): boolean {
-    return (
-        address === LIQUID_TOKEN_ADDRESS.toLowerCase() ||
-        address === LIQUID_TOKEN_MANAGER_ADDRESS.toLowerCase() ||
-        address === STAKER_NODE_COORDINATOR_ADDRESS.toLowerCase() ||
-        address === TOKEN_REGISTRY_ORACLE_ADDRESS.toLowerCase()
-    )
+    return proposals
 }
@@ -0,0 +1,34 @@
+import type { Address, TransactionReceipt } from 'viem'
+import { getConfig } from './config'
+import { type RelayerCall, getRelayerAddress, sendRelayerTransaction } from './relayer'
+import { getSigner } from './signers'
+import { getChain, getViemClient, getWalletClient } from './viemClient'
+
+// Transactions sent outside the Safe, e.g. by the price updater. Sent from the `PRICE_UPDATER_*` signer
+// or through a Defender Relayer, depending on `hotWallet.backend` in config
+
+/**
+ * Returns the address hot wallet transactions are sent from
+ *
+ * @returns
+ */
+export async function getHotWalletAddress(): Promise<Address> {
+    if (getConfig().hotWallet.backend === 'defender') return getRelayerAddress()
+
+    return (await getSigner('priceUpdater')).address
+}
+
+/**
+ * Sends a transaction from the hot wallet and waits until it is mined
+ *
+ * @param call
+ * @returns
+ */
+export async function sendHotWalletTransaction(call: RelayerCall): Promise<TransactionReceipt> {
+    if (getConfig().hotWallet.backend === 'defender') return sendRelayerTransaction(call)
+
+    const account = await getSigner('priceUpdater')
+    const hash = await getWalletClient(account).sendTransaction({ ...call, account, chain: getChain() })
+
+    return getViemClient().waitForTransactionReceipt({ hash })
+}
@@ -0,0 +1,42 @@
+import { createLogger } from './logger'
+import { getRunId } from './run'
+
+const log = createLogger('HTTP')
+
+/**
+ * `fetch` that logs the request
+ * The current run ID is sent in the `X-Run-Id` header only with `sendRunId`, set for the LAT API and EE API
+ * so it is not leaked to third-party hosts
+ *
+ * @param url
+ * @param init
+ * @param options
+ * @returns
+ */
+export async function tracedFetch(
+    url: string,
+    init: RequestInit = {},
+    options: { sendRunId?: boolean } = {}
+): Promise<Response> {
+    const headers = new Headers(init.headers)
+    const runId = getRunId()
+    if (options.sendRunId && runId) headers.set('X-Run-Id', runId)
+
+    const method = init.method ?? 'GET'
+    const startedAt = Date.now()
+
+    try {
+        const response = await fetch(url, { ...init, headers })
+        log.debug(`${method} ${redact(url)} ${response.status}`, { durationMs: Date.now() - startedAt })
+        return response
+    } catch (error) {
+        log.debug(`${method} ${redact(url)} failed`, { durationMs: Date.now() - startedAt, error: error.message })
+        throw error
+    }
+}
+
+// --- Helper functions ---
+
+function redact(url: string): string {
+    return url.replace(/([?&](?:api_?key|token)=)[^&]+/gi, '$1***')
+}
@@ -0,0 +1,296 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { getAddress, parseAbi } from 'viem/utils'
+import { apiKit } from './safe'
+import { type Deployment, getMultisigAddress } from './deployment'
+import { type RawCall, decodeSafeCalls } from './decode'
+import { getConfig, resolveConfigPath } from './config'
+import { createLogger } from './logger'
+import type { StakeVerification } from './verification'
+import { getViemClient } from './viemClient'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+
+export type LedgerStatus = 'proposed' | 'confirmed' | 'executed' | 'rejected'
+
+export interface LedgerEntry {
+    safeTxHash: string
+    safeAddress: string
+    multisig: 'admin' | 'pauser'
+    nonce: number
+    title: string
+    description: string
+    workflow: string | null // Name of the run that proposed it
+    runId: string | null
+    transaction: RawCall // Safe transaction calldata
+    inputs: { to: string; functionName: string | null; args: unknown[] | null }[] // Decoded calls, with amounts as strings
+    status: LedgerStatus
+    proposedAt: string
+    updatedAt: string
+    executionTxHash?: string
+    plan?: NodeAllocation[] // Allocations a staking proposal was planned with
+    verification?: StakeVerification // Checks of an executed staking proposal against its plan
+}
+
+// Status update or verification appended to the ledger file after the entry itself
+interface LedgerUpdate {
+    safeTxHash: string
+    updatedAt: string
+    status?: LedgerStatus
+    executionTxHash?: string
+    verification?: StakeVerification
+}
+
+const SAFE_ABI = parseAbi(['function nonce() view returns (uint256)'])
+
+const OPEN_STATUSES: LedgerStatus[] = ['proposed', 'confirmed']
+
+const log = createLogger('Ledger')
+
+/**
+ * Appends a proposal to the ledger with the `proposed` status
+ *
+ * @param entry
+ */
+export async function recordLedgerEntry(entry: Omit<LedgerEntry, 'inputs' | 'status' | 'proposedAt' | 'updatedAt'>) {
+    const now = new Date().toISOString()
+
+    await appendLines([
+        {
+            ...entry,
+            inputs: decodeSafeCalls(entry.transaction).map(({ to, functionName, args }) => ({
+                to,
+                functionName,
+                args: args ? JSON.parse(JSON.stringify(args, bigintReplacer)) : null
+            })),
+            status: 'proposed',
+            proposedAt: now,
+            updatedAt: now
+        }
+    ])
+}
+
+/**
+ * Reads every proposal in the ledger file with its latest status, keyed by safeTxHash
+ *
+ * @returns
+ */
+export async function loadLedger(): Promise<Map<string, LedgerEntry>> {
+    const filePath = getLedgerPath()
+
+    try {
+        return parseLedger(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+        if (error.code === 'ENOENT') return new Map()
+        throw new Error(`Failed to read proposal ledger ${filePath}: ${error.message}`)
+    }
+}
+
+/**
+ * Parses the ledger file, which holds one JSON line per proposal or status update
+ * The latest line for a proposal wins. Malformed lines, e.g. cut short by a crash, are skipped
+ *
+ * @param content
+ * @returns
+ */
+export function parseLedger(content: string): Map<string, LedgerEntry> {
+    const entries = new Map<string, LedgerEntry>()
+
+    for (const [index, line] of content.split('\n').entries()) {
+        if (!line.trim()) continue
+
+        let record: LedgerEntry | LedgerUpdate
+        try {
+            record = JSON.parse(line)
+        } catch {
+            log.warn(`Skipping malformed proposal ledger line ${index + 1}`)
+            continue
+        }
+
+        const existing = entries.get(record.safeTxHash)
+
+        if ('transaction' in record) {
+            entries.set(record.safeTxHash, record)
+        } else if (existing) {
+            entries.set(record.safeTxHash, { ...existing, ...record })
+        }
+    }
+
+    return entries
+}
+
+/**
+ * Returns the proposals in the ledger that are not executed or rejected yet for a Safe
+ *
+ * @param safeAddress
+ * @returns
+ */
+export async function getOpenLedgerEntries(safeAddress: string): Promise<LedgerEntry[]> {
+    return [...(await loadLedger()).values()].filter(
+        (entry) => entry.safeAddress.toLowerCase() === safeAddress.toLowerCase() && OPEN_STATUSES.includes(entry.status)
+    )
+}
+
+/**
+ * Returns the open proposal in the ledger that makes exactly the same Safe transaction, if any
+ *
+ * @param safeAddress
+ * @param transaction
+ * @returns
+ */
+export async function findOpenLedgerEntry(safeAddress: string, transaction: RawCall): Promise<LedgerEntry | undefined> {
+    return (await getOpenLedgerEntries(safeAddress)).find(
+        (entry) =>
+            entry.transaction.to.toLowerCase() === transaction.to.toLowerCase() &&
+            entry.transaction.value.toString() === transaction.value.toString() &&
+            entry.transaction.data.toLowerCase() === transaction.data.toLowerCase() &&
+            Number(entry.transaction.operation) === Number(transaction.operation)
+    )
+}
+
+/**
+ * Records the verification of an executed staking proposal in the ledger
+ *
+ * @param safeTxHash
+ * @param verification
+ */
+export async function recordLedgerVerification(safeTxHash: string, verification: StakeVerification) {
+    await appendLines([{ safeTxHash, updatedAt: new Date().toISOString(), verification }])
+}
+
+/**
+ * Moves each open proposal of the deployment's Safes to its current status
+ * Proposals are `executed` once the transaction service reports them executed, `rejected` once it reports
+ * another transaction executed at their nonce, and `confirmed` once they have enough confirmations
+ *
+ * @param deployment
+ * @returns
+ */
+export async function reconcileLedger(deployment: Deployment): Promise<LedgerEntry[]> {
+    const viemClient = getViemClient()
+    const updated: LedgerEntry[] = []
+
+    for (const multisig of ['admin', 'pauser'] as const) {
+        const safeAddress = getMultisigAddress(deployment, multisig)
+        const entries = await getOpenLedgerEntries(safeAddress)
+        if (entries.length === 0) continue
+
+        const nonce = Number(
+            await viemClient.readContract({ address: getAddress(safeAddress), abi: SAFE_ABI, functionName: 'nonce' })
+        )
+
+        for (const entry of entries) {
+            const update = await getLedgerUpdate(entry, nonce)
+            if (update.status === entry.status) continue
+
+            await appendLines([update])
+            updated.push({ ...entry, ...update })
+
+            log.info(`${entry.multisig} #${entry.nonce} ${entry.title}: ${entry.status} -> ${update.status}`, {
+                safeTxHash: entry.safeTxHash
+            })
+        }
+    }
+
+    return updated
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the status of an open proposal from the transaction service and the Safe's on-chain nonce
+ *
+ * @param entry
+ * @param safeNonce
+ * @returns
+ */
+async function getLedgerUpdate(
+    entry: LedgerEntry,
+    safeNonce: number
+): Promise<LedgerUpdate & { status: LedgerStatus }> {
+    const updatedAt = new Date().toISOString()
+
+    let tx: Awaited<ReturnType<typeof apiKit.getTransaction>> | null = null
+    try {
+        tx = await apiKit.getTransaction(entry.safeTxHash)
+    } catch (error) {
+        // Keep the status on any other failure of the service, the next run retries
+        if (!isNotFoundError(error)) {
+            log.warn(`Failed to fetch proposal ${entry.safeTxHash} from the transaction service: ${error.message}`)
+            return { safeTxHash: entry.safeTxHash, status: entry.status, updatedAt }
+        }
+
+        // The service does not know proposals that never reached it
+        log.debug(`Proposal ${entry.safeTxHash} not found on the transaction service: ${error.message}`)
+    }
+
+    if (tx?.isExecuted) {
+        return {
+            safeTxHash: entry.safeTxHash,
+            status: tx.isSuccessful === false ? 'rejected' : 'executed',
+            updatedAt,
+            executionTxHash: tx.transactionHash ?? undefined
+        }
+    }
+
+    // The service indexes executions after the chain, so the nonce alone does not tell whether this proposal
+    // or another one used it. Only reject once the service reports the other transaction
+    if (safeNonce > entry.nonce) {
+        const executedTxHash = await getExecutedTxHash(entry)
+        if (executedTxHash && executedTxHash !== entry.safeTxHash) {
+            return { safeTxHash: entry.safeTxHash, status: 'rejected', updatedAt }
+        }
+
+        log.debug(`Nonce ${entry.nonce} of ${entry.safeAddress} is used, waiting for the transaction service`, {
+            safeTxHash: entry.safeTxHash
+        })
+        return { safeTxHash: entry.safeTxHash, status: entry.status, updatedAt }
+    }
+
+    const confirmed = !!tx && (tx.confirmations?.length ?? 0) >= tx.confirmationsRequired
+    return { safeTxHash: entry.safeTxHash, status: confirmed ? 'confirmed' : 'proposed', updatedAt }
+}
+
+/**
+ * Returns the safeTxHash of the transaction the service reports executed at the entry's nonce, or null if
+ * it has not indexed one yet or could not be reached
+ *
+ * @param entry
+ * @returns
+ */
+async function getExecutedTxHash(entry: LedgerEntry): Promise<string | null> {
+    try {
+        const { results } = await apiKit.getMultisigTransactions(entry.safeAddress, {
+            nonce: entry.nonce.toString(),
+            executed: true
+        })
+        return results[0]?.safeTxHash ?? null
+    } catch (error) {
+        log.warn(`Failed to fetch executed transactions of ${entry.safeAddress}: ${error.message}`)
+        return null
+    }
+}
+
+/**
+ * Returns whether a transaction service error is a 404. The Safe API kit only keeps the response's message
+ *
+ * @param error
+ * @returns
+ */
+function isNotFoundError(error: Error): boolean {
+    return /not found|matches the given query/i.test(error.message)
+}
+
+async function appendLines(records: (LedgerEntry | LedgerUpdate)[]) {
+    const filePath = getLedgerPath()
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.appendFile(filePath, records.map((record) => `${JSON.stringify(record, bigintReplacer)}\n`).join(''))
+}
+
+function getLedgerPath(): string {
+    return resolveConfigPath(getConfig().proposals.ledgerFile)
+}
+
+function bigintReplacer(_: string, value: unknown) {
+    return typeof value === 'bigint' ? value.toString() : value
+}
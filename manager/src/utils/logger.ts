@@ -0,0 +1,88 @@
+import { getRunReport, recordWarning } from './run'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface Logger {
+    debug(message: string, fields?: Record<string, unknown>): void
+    info(message: string, fields?: Record<string, unknown>): void
+    warn(message: string, fields?: Record<string, unknown>): void
+    error(message: string, error?: unknown, fields?: Record<string, unknown>): void
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
+const LEVEL_TAGS: Record<LogLevel, string> = { debug: '[Debug]', info: '', warn: '[Warning]', error: '[Error]' }
+
+const level: LogLevel = parseLevel(process.env.LOG_LEVEL)
+const format: 'text' | 'json' = process.env.LOG_FORMAT === 'json' ? 'json' : 'text'
+
+/**
+ * Returns a logger whose lines are prefixed with `[scope]`
+ * Lines are tagged with the current run ID, and warnings are added to the current run report
+ * Configured with `LOG_LEVEL` (debug, info, warn, error) and `LOG_FORMAT` (text, json)
+ *
+ * @param scope
+ * @returns
+ */
+export function createLogger(scope: string): Logger {
+    return {
+        debug: (message, fields) => write('debug', scope, message, fields),
+        info: (message, fields) => write('info', scope, message, fields),
+        warn: (message, fields) => {
+            recordWarning(message)
+            write('warn', scope, message, fields)
+        },
+        error: (message, error, fields) =>
+            write('error', scope, message, {
+                ...fields,
+                ...(error instanceof Error ? { error: error.message } : error !== undefined ? { error } : {})
+            })
+    }
+}
+
+// --- Helper functions ---
+
+function write(lineLevel: LogLevel, scope: string, message: string, fields?: Record<string, unknown>) {
+    if (LEVELS[lineLevel] < LEVELS[level]) return
+
+    const run = getRunReport()
+
+    if (format === 'json') {
+        console.log(
+            JSON.stringify(
+                {
+                    time: new Date().toISOString(),
+                    level: lineLevel,
+                    scope,
+                    runId: run?.runId,
+                    run: run?.name,
+                    message,
+                    ...fields
+                },
+                bigintReplacer
+            )
+        )
+        return
+    }
+
+    const runTag = run ? `[${run.runId}]` : ''
+    const details = fields && Object.keys(fields).length > 0 ? ` ${formatFields(fields)}` : ''
+
+    console.log(`[${scope}]${runTag}${LEVEL_TAGS[lineLevel]} ${message}${details}`)
+}
+
+function formatFields(fields: Record<string, unknown>): string {
+    return Object.entries(fields)
+        .map(
+            ([key, value]) =>
+                `${key}=${typeof value === 'string' || typeof value === 'bigint' ? value : JSON.stringify(value, bigintReplacer)}`
+        )
+        .join(' ')
+}
+
+function bigintReplacer(_: string, value: unknown) {
+    return typeof value === 'bigint' ? value.toString() : value
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+    return value && value in LEVELS ? (value as LogLevel) : 'info'
+}
@@ -0,0 +1,190 @@
+import type { SafeQueue } from './proposals'
+import type { StakerNode } from './nodes'
+
+export interface WorkflowResult {
+    success: boolean
+    finishedAt: string
+}
+
+type Labels = Record<string, string>
+type Value = number | bigint | (() => number) // Functions are evaluated on every render, e.g. for ages
+
+interface Sample {
+    labels: Labels
+    value: Value
+}
+
+// Every gauge the manager exposes, with its help text
+const METRICS: Record<string, string> = {
+    lat_manager_workflow_success: 'Whether the last run of the workflow succeeded',
+    lat_manager_workflow_last_run_timestamp_seconds: 'Time the last run of the workflow finished',
+    lat_manager_workflow_last_success_timestamp_seconds: 'Time the last successful run of the workflow finished',
+    lat_manager_asset_balance:
+        'Balance of an asset held by the LAT, in the asset base unit, by state (idle, staked, queued)',
+    lat_manager_prices_stale: 'Whether TokenRegistryOracle prices are stale',
+    lat_manager_last_price_update_timestamp_seconds: 'Time of the last TokenRegistryOracle price update',
+    lat_manager_last_price_update_age_seconds: 'Age of the last TokenRegistryOracle price update',
+    lat_manager_pending_proposals: 'Number of pending proposals on the Safe',
+    lat_manager_oldest_pending_proposal_age_seconds: 'Age of the oldest pending proposal on the Safe',
+    lat_manager_staker_nodes: 'Number of staker nodes',
+    lat_manager_delegated_staker_nodes: 'Number of staker nodes delegated to an operator'
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+const gauges = new Map<string, Map<string, Sample>>()
+const workflowResults = new Map<string, WorkflowResult>()
+
+/**
+ * Sets the value of a gauge for a set of labels
+ *
+ * @param name
+ * @param labels
+ * @param value
+ */
+export function setGauge(name: string, labels: Labels, value: Value) {
+    if (!(name in METRICS)) throw new Error(`Unknown metric: ${name}`)
+
+    if (!gauges.has(name)) gauges.set(name, new Map())
+    gauges.get(name)?.set(JSON.stringify(labels), { labels, value })
+}
+
+/**
+ * Records the result of a workflow run
+ *
+ * @param workflow
+ * @param success
+ */
+export function recordWorkflowResult(workflow: string, success: boolean) {
+    const finishedAt = new Date()
+    const timestamp = Math.floor(finishedAt.getTime() / 1000)
+
+    workflowResults.set(workflow, { success, finishedAt: finishedAt.toISOString() })
+
+    setGauge('lat_manager_workflow_success', { workflow }, success ? 1 : 0)
+    setGauge('lat_manager_workflow_last_run_timestamp_seconds', { workflow }, timestamp)
+    if (success) setGauge('lat_manager_workflow_last_success_timestamp_seconds', { workflow }, timestamp)
+}
+
+/**
+ * Returns the result of the last run of each workflow
+ *
+ * @returns
+ */
+export function getWorkflowResults(): Record<string, WorkflowResult> {
+    return Object.fromEntries(workflowResults)
+}
+
+/**
+ * Records the balance of each asset held by a LAT in one state, keyed by asset address
+ *
+ * @param liquidToken
+ * @param state
+ * @param balances
+ */
+export function recordAssetBalances(
+    liquidToken: string,
+    state: 'idle' | 'staked' | 'queued',
+    balances: Map<string, bigint>
+) {
+    for (const [asset, balance] of balances) {
+        setGauge(
+            'lat_manager_asset_balance',
+            { lat: liquidToken.toLowerCase(), asset: asset.toLowerCase(), state },
+            balance
+        )
+    }
+}
+
+/**
+ * Records whether a LAT's prices are stale and when they were last updated
+ *
+ * @param liquidToken
+ * @param stale
+ * @param lastPriceUpdate
+ */
+export function recordPriceState(liquidToken: string, stale: boolean, lastPriceUpdate: bigint) {
+    const labels = { lat: liquidToken.toLowerCase() }
+    const timestamp = Number(lastPriceUpdate)
+
+    setGauge('lat_manager_prices_stale', labels, stale ? 1 : 0)
+    setGauge('lat_manager_last_price_update_timestamp_seconds', labels, timestamp)
+    setGauge('lat_manager_last_price_update_age_seconds', labels, () => Math.floor(Date.now() / 1000) - timestamp)
+}
+
+/**
+ * Records the number of pending proposals on a Safe and the age of the oldest one
+ *
+ * @param queue
+ */
+export function recordSafeQueue(queue: SafeQueue) {
+    const labels = { safe: queue.safeAddress.toLowerCase(), multisig: queue.multisig }
+    const submissionTimes = queue.proposals.map((proposal) => new Date(proposal.submissionDate).getTime())
+    const oldest = submissionTimes.length > 0 ? Math.min(...submissionTimes) : null
+
+    setGauge('lat_manager_pending_proposals', labels, queue.proposals.length)
+    setGauge('lat_manager_oldest_pending_proposal_age_seconds', labels, () =>
+        oldest === null ? 0 : Math.floor((Date.now() - oldest) / 1000)
+    )
+}
+
+/**
+ * Records the number of staker nodes of a LAT and how many are delegated
+ *
+ * @param liquidToken
+ * @param nodes
+ */
+export function recordStakerNodes(liquidToken: string, nodes: StakerNode[]) {
+    const labels = { lat: liquidToken.toLowerCase() }
+
+    setGauge('lat_manager_staker_nodes', labels, nodes.length)
+    setGauge(
+        'lat_manager_delegated_staker_nodes',
+        labels,
+        nodes.filter((node) => node.operatorDelegation !== ZERO_ADDRESS).length
+    )
+}
+
+/**
+ * Renders every gauge in the Prometheus text exposition format
+ *
+ * @returns
+ */
+export function renderMetrics(): string {
+    const lines: string[] = []
+
+    for (const [name, help] of Object.entries(METRICS)) {
+        const samples = gauges.get(name)
+        if (!samples || samples.size === 0) continue
+
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`)
+
+        for (const { labels, value } of samples.values()) {
+            lines.push(`${name}${formatLabels(labels)} ${typeof value === 'function' ? value() : value}`)
+        }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+}
+
+/**
+ * Clears every gauge and workflow result
+ *
+ */
+export function resetMetrics() {
+    gauges.clear()
+    workflowResults.clear()
+}
+
+// --- Helper functions ---
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels)
+    if (entries.length === 0) return ''
+
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
@@ -0,0 +1,156 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { parseAbi } from 'viem/utils'
+import type { Deployment } from './deployment'
+import { getConfig } from './config'
+import { createLogger } from './logger'
+import { getWorkflowResults, recordAssetBalances, recordPriceState, renderMetrics } from './metrics'
+import { getStakerNodes } from './nodes'
+import { inspectPendingProposals } from './proposals'
+import { getJobStates } from './scheduler'
+import { getViemClient } from './viemClient'
+
+const LIQUID_TOKEN_ABI = parseAbi([
+    'function balanceAssets(address[] assetList) view returns (uint256[])',
+    'function balanceQueuedAssets(address[] assetList) view returns (uint256[])'
+])
+
+const LIQUID_TOKEN_MANAGER_ABI = parseAbi([
+    'function getSupportedTokens() view returns (address[])',
+    'function getDepositAssetBalance(address asset) view returns (uint256)'
+])
+
+const ORACLE_ABI = parseAbi([
+    'function arePricesStale() view returns (bool)',
+    'function lastPriceUpdate() view returns (uint256)'
+])
+
+const log = createLogger('Monitoring')
+
+/**
+ * Starts the HTTP server for `/healthz` and `/metrics`, on the `metrics.port` in config by default
+ * `/healthz` fails with 503 once the last run of any workflow failed
+ * `/metrics` serves Prometheus gauges, refreshing on-chain values with `collect` at most once per `metrics.refreshInterval`
+ *
+ * @param collect
+ * @param port
+ * @returns
+ */
+export function startMonitoringServer(collect: () => Promise<void>, port = getConfig().metrics.port): http.Server {
+    const { refreshInterval } = getConfig().metrics
+
+    let lastRefresh = 0
+    let refreshing: Promise<void> | null = null
+
+    const refresh = async () => {
+        if (Date.now() - lastRefresh < refreshInterval * 1000) return
+
+        refreshing ??= collect()
+            .then(() => {
+                lastRefresh = Date.now()
+            })
+            .catch((error) => log.warn(`Failed to refresh metrics: ${error.message}`))
+            .finally(() => {
+                refreshing = null
+            })
+
+        await refreshing
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost')
+
+        if (req.method !== 'GET') {
+            res.writeHead(405).end()
+            return
+        }
+
+        switch (url.pathname) {
+            case '/healthz': {
+                const workflows = getWorkflowResults()
+                const healthy = Object.values(workflows).every((result) => result.success)
+
+                res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' }).end(
+                    JSON.stringify({ status: healthy ? 'ok' : 'failing', workflows, jobs: getJobStates() })
+                )
+                return
+            }
+            case '/metrics':
+                await refresh()
+
+                res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(renderMetrics())
+                return
+            default:
+                res.writeHead(404).end()
+        }
+    })
+
+    // A port in use must not stop the scheduler, so the daemon runs on without metrics
+    server.on('error', (error) => log.error(`Failed to serve /healthz and /metrics on port ${port}`, error))
+    server.listen(port, () =>
+        log.info(`Serving /healthz and /metrics on port ${(server.address() as AddressInfo).port}`)
+    )
+
+    return server
+}
+
+/**
+ * Reads the balances of every token a LAT supports, its price state, staker nodes and pending proposals, and records them as metrics
+ *
+ * @param deployment
+ */
+export async function collectMetrics(deployment: Deployment) {
+    const viemClient = getViemClient()
+    const assets = await viemClient.readContract({
+        address: deployment.liquidTokenManager,
+        abi: LIQUID_TOKEN_MANAGER_ABI,
+        functionName: 'getSupportedTokens'
+    })
+
+    const [idle, queued, staked, stale, lastPriceUpdate] = await Promise.all([
+        viemClient.readContract({
+            address: deployment.liquidToken,
+            abi: LIQUID_TOKEN_ABI,
+            functionName: 'balanceAssets',
+            args: [assets]
+        }),
+        viemClient.readContract({
+            address: deployment.liquidToken,
+            abi: LIQUID_TOKEN_ABI,
+            functionName: 'balanceQueuedAssets',
+            args: [assets]
+        }),
+        Promise.all(
+            assets.map((asset) =>
+                viemClient.readContract({
+                    address: deployment.liquidTokenManager,
+                    abi: LIQUID_TOKEN_MANAGER_ABI,
+                    functionName: 'getDepositAssetBalance',
+                    args: [asset]
+                })
+            )
+        ),
+        viemClient.readContract({
+            address: deployment.tokenRegistryOracle,
+            abi: ORACLE_ABI,
+            functionName: 'arePricesStale'
+        }),
+        viemClient.readContract({
+            address: deployment.tokenRegistryOracle,
+            abi: ORACLE_ABI,
+            functionName: 'lastPriceUpdate'
+        })
+    ])
+
+    recordAssetBalances(deployment.liquidToken, 'idle', new Map(assets.map((asset, index) => [asset, idle[index]])))
+    recordAssetBalances(deployment.liquidToken, 'queued', new Map(assets.map((asset, index) => [asset, queued[index]])))
+    recordAssetBalances(deployment.liquidToken, 'staked', new Map(assets.map((asset, index) => [asset, staked[index]])))
+    recordPriceState(deployment.liquidToken, stale, lastPriceUpdate)
+
+    // Staker nodes and Safe queues are recorded when fetched
+    await Promise.all([
+        getStakerNodes(deployment),
+        inspectPendingProposals(deployment, 'admin'),
+        inspectPendingProposals(deployment, 'pauser')
+    ])
+}
@@ -0,0 +1,93 @@
+import { getAddress, parseAbi } from 'viem/utils'
+import type { Deployment } from './deployment'
+import { recordStakerNodes } from './metrics'
+import { getViemClient } from './viemClient'
+
+export interface StakerNode {
+    nodeId: number
+    address: string
+    operatorDelegation: string // Zero address if the node is not delegated
+}
+
+const STAKER_NODE_COORDINATOR_ABI = parseAbi([
+    'function getAllNodes() view returns (address[])',
+    'function maxNodes() view returns (uint256)'
+])
+
+const STAKER_NODE_ABI = parseAbi(['function getOperatorDelegation() view returns (address)'])
+
+const LIQUID_TOKEN_MANAGER_ABI = parseAbi([
+    'function getDepositAssetBalanceNode(address,uint256) view returns (uint256)'
+])
+
+/**
+ * Returns every staker node with its delegation, read from `StakerNodeCoordinator`
+ * Node IDs are the nodes' indexes in `getAllNodes`. Node counts are recorded as metrics
+ *
+ * @param deployment
+ * @returns
+ */
+export async function getStakerNodes(deployment: Deployment): Promise<{ nodes: StakerNode[]; maxNodes: number }> {
+    const viemClient = getViemClient()
+
+    const [nodeAddresses, maxNodes] = await Promise.all([
+        viemClient.readContract({
+            address: deployment.stakerNodeCoordinator,
+            abi: STAKER_NODE_COORDINATOR_ABI,
+            functionName: 'getAllNodes'
+        }),
+        viemClient.readContract({
+            address: deployment.stakerNodeCoordinator,
+            abi: STAKER_NODE_COORDINATOR_ABI,
+            functionName: 'maxNodes'
+        })
+    ])
+
+    const nodes = await Promise.all(
+        nodeAddresses.map(async (address, nodeId) => ({
+            nodeId,
+            address,
+            operatorDelegation: await viemClient.readContract({
+                address,
+                abi: STAKER_NODE_ABI,
+                functionName: 'getOperatorDelegation'
+            })
+        }))
+    )
+
+    recordStakerNodes(deployment.liquidToken, nodes)
+
+    return { nodes, maxNodes: Number(maxNodes) }
+}
+
+/**
+ * Returns the amount of each asset staked to each node, read from `LiquidTokenManager`
+ *
+ * @param deployment
+ * @param nodeIds
+ * @param assets
+ * @returns
+ */
+export async function getNodeBalances(deployment: Deployment, nodeIds: number[], assets: string[]) {
+    const viemClient = getViemClient()
+
+    const nodeBalances = new Map<number, Map<string, bigint>>()
+
+    await Promise.all(
+        nodeIds.flatMap((nodeId) =>
+            assets.map(async (asset) => {
+                const balance = await viemClient.readContract({
+                    address: deployment.liquidTokenManager,
+                    abi: LIQUID_TOKEN_MANAGER_ABI,
+                    functionName: 'getDepositAssetBalanceNode',
+                    args: [getAddress(asset), BigInt(nodeId)]
+                })
+
+                if (!nodeBalances.has(nodeId)) nodeBalances.set(nodeId, new Map())
+                nodeBalances.get(nodeId)?.set(asset.toLowerCase(), balance)
+            })
+        )
+    )
+
+    return nodeBalances
+}
@@ -0,0 +1,320 @@
+import type { Address } from 'viem'
+import { getAddress, parseAbi } from 'viem/utils'
+import { getConfig } from './config'
+import type { Deployment } from './deployment'
+import { tracedFetch } from './http'
+import { createLogger } from './logger'
+import { getViemClient } from './viemClient'
+
+export interface OperatorStrategyState {
+    operator: string
+    sharedStrategies: string[] // Strategies the operator holds shares in on the `DelegationManager`
+    allocatedStrategies: string[] | null // Strategies allocated to the LAT's AVS operator sets, null if the LAT has no AVS
+}
+
+export interface OperatorStrategyDisagreement {
+    operator: string
+    onlyOnChain: string[] // Strategies with operator shares on-chain that the EE API does not report
+    onlyEeApi: string[] // Strategies the EE API reports that have no operator shares on-chain
+}
+
+interface OperatorResponse {
+    shares: { strategyAddress: string }[]
+}
+
+const EE_API_URL = process.env.EE_API_URL
+
+// EigenLayer `DelegationManager` and `AllocationManager` functions, shared with `monitorOperators`
+export const EIGENLAYER_ABI = parseAbi([
+    'function delegationManager() view returns (address)',
+    'function allocationManager() view returns (address)',
+    'function getOperatorShares(address operator, address[] strategies) view returns (uint256[])',
+    'struct OperatorSet { address avs; uint32 id; }',
+    'struct Allocation { uint64 currentMagnitude; int128 pendingDiff; uint32 effectBlock; }',
+    'function getAllocatedSets(address operator) view returns (OperatorSet[])',
+    'function getAllocation(address operator, OperatorSet operatorSet, address strategy) view returns (Allocation)',
+    'function getRegisteredSets(address operator) view returns (OperatorSet[])',
+    'function getMaxMagnitudes(address operator, address[] strategies) view returns (uint64[])'
+])
+
+const log = createLogger('OperatorStrategies')
+
+/**
+ * Returns the strategies each operator restakes, out of the strategies of the LAT's tokens
+ * Read on-chain from EigenLayer's `DelegationManager` operator shares and, if the LAT has an AVS, the
+ * `AllocationManager` allocations to the AVS's operator sets. If `crossCheck` is set, which defaults to
+ * `operatorStrategies.crossCheck` in config, the operator shares are compared with the EE API and any
+ * disagreement is recorded as a warning in the run report
+ *
+ * @param deployment
+ * @param operators
+ * @param strategies
+ * @param crossCheck
+ * @returns
+ */
+export async function getOperatorStrategies(
+    deployment: Deployment,
+    operators: string[],
+    strategies: string[],
+    crossCheck = getConfig().operatorStrategies.crossCheck
+): Promise<Map<string, string[]>> {
+    const states = await readOperatorStrategies(deployment, operators, strategies)
+
+    if (crossCheck) {
+        const disagreements = await crossCheckOperatorStrategies(states, strategies)
+
+        for (const { operator, onlyOnChain, onlyEeApi } of disagreements) {
+            log.warn(
+                `Operator ${operator} strategies disagree with the EE API. Only on-chain: [${onlyOnChain.join(', ')}], only EE API: [${onlyEeApi.join(', ')}]`
+            )
+        }
+    }
+
+    return resolveOperatorStrategies(states)
+}
+
+/**
+ * Returns the strategies each operator restakes, keyed by lowercase operator
+ * An operator restakes a strategy if it holds shares in it and, if the LAT has an AVS, allocated it to the AVS
+ *
+ * @param states
+ * @returns
+ */
+export function resolveOperatorStrategies(states: OperatorStrategyState[]): Map<string, string[]> {
+    return new Map(
+        states.map(({ operator, sharedStrategies, allocatedStrategies }) => [
+            operator.toLowerCase(),
+            sharedStrategies
+                .map((strategy) => strategy.toLowerCase())
+                .filter(
+                    (strategy) =>
+                        !allocatedStrategies ||
+                        allocatedStrategies.some((allocated) => allocated.toLowerCase() === strategy)
+                )
+        ])
+    )
+}
+
+/**
+ * Compares the strategies each operator holds shares in on-chain with the strategies the EE API reports
+ * Only the given strategies are compared, since the EE API reports every strategy an operator restakes
+ *
+ * @param states
+ * @param eeApiStrategies
+ * @param strategies
+ * @returns
+ */
+export function compareOperatorStrategies(
+    states: OperatorStrategyState[],
+    eeApiStrategies: Map<string, string[]>,
+    strategies: string[]
+): OperatorStrategyDisagreement[] {
+    const compared = new Set(strategies.map((strategy) => strategy.toLowerCase()))
+    const disagreements: OperatorStrategyDisagreement[] = []
+
+    for (const { operator, sharedStrategies } of states) {
+        const onChain = new Set(sharedStrategies.map((strategy) => strategy.toLowerCase()))
+        const eeApi = new Set(
+            (eeApiStrategies.get(operator.toLowerCase()) ?? [])
+                .map((strategy) => strategy.toLowerCase())
+                .filter((strategy) => compared.has(strategy))
+        )
+
+        const onlyOnChain = [...onChain].filter((strategy) => !eeApi.has(strategy))
+        const onlyEeApi = [...eeApi].filter((strategy) => !onChain.has(strategy))
+
+        if (onlyOnChain.length > 0 || onlyEeApi.length > 0) {
+            disagreements.push({ operator: operator.toLowerCase(), onlyOnChain, onlyEeApi })
+        }
+    }
+
+    return disagreements
+}
+
+/**
+ * Returns EigenLayer's `DelegationManager` address, read from the LAT's `StakerNodeCoordinator`
+ *
+ * @param deployment
+ * @returns
+ */
+export async function getDelegationManager(deployment: Deployment): Promise<Address> {
+    return getViemClient().readContract({
+        address: deployment.stakerNodeCoordinator,
+        abi: EIGENLAYER_ABI,
+        functionName: 'delegationManager'
+    })
+}
+
+/**
+ * Returns EigenLayer's `AllocationManager` address, read from the `DelegationManager`
+ *
+ * @param deployment
+ * @returns
+ */
+export async function getAllocationManager(deployment: Deployment): Promise<Address> {
+    return getViemClient().readContract({
+        address: await getDelegationManager(deployment),
+        abi: EIGENLAYER_ABI,
+        functionName: 'allocationManager'
+    })
+}
+
+// --- Helper functions ---
+
+/**
+ * Reads the operator shares and AVS allocations of each operator for the given strategies
+ *
+ * @param deployment
+ * @param operators
+ * @param strategies
+ * @returns
+ */
+async function readOperatorStrategies(
+    deployment: Deployment,
+    operators: string[],
+    strategies: string[]
+): Promise<OperatorStrategyState[]> {
+    const viemClient = getViemClient()
+    const strategyAddresses = strategies.map((strategy) => getAddress(strategy))
+
+    const delegationManager = await getDelegationManager(deployment)
+
+    const shares = await viemClient.multicall({
+        contracts: operators.map(
+            (operator) =>
+                ({
+                    address: delegationManager,
+                    abi: EIGENLAYER_ABI,
+                    functionName: 'getOperatorShares',
+                    args: [getAddress(operator), strategyAddresses]
+                }) as const
+        ),
+        allowFailure: false
+    })
+
+    const allocated = deployment.avs
+        ? await readAllocatedStrategies(deployment, deployment.avs, operators, strategyAddresses)
+        : null
+
+    return operators.map((operator, index) => ({
+        operator,
+        sharedStrategies: strategyAddresses.filter((_, i) => shares[index][i] > 0n),
+        allocatedStrategies: allocated?.[index] ?? null
+    }))
+}
+
+/**
+ * Returns the strategies each operator allocated a non-zero magnitude to, in any operator set of the AVS
+ *
+ * @param deployment
+ * @param avs
+ * @param operators
+ * @param strategies
+ * @returns
+ */
+async function readAllocatedStrategies(
+    deployment: Deployment,
+    avs: Address,
+    operators: string[],
+    strategies: Address[]
+): Promise<string[][]> {
+    const viemClient = getViemClient()
+
+    const allocationManager = await getAllocationManager(deployment)
+
+    const allocatedSets = await viemClient.multicall({
+        contracts: operators.map(
+            (operator) =>
+                ({
+                    address: allocationManager,
+                    abi: EIGENLAYER_ABI,
+                    functionName: 'getAllocatedSets',
+                    args: [getAddress(operator)]
+                }) as const
+        ),
+        allowFailure: false
+    })
+
+    return Promise.all(
+        operators.map(async (operator, index) => {
+            const operatorSets = allocatedSets[index].filter((set) => set.avs.toLowerCase() === avs.toLowerCase())
+            const queries = operatorSets.flatMap((operatorSet) =>
+                strategies.map((strategy) => ({ operatorSet, strategy }))
+            )
+            if (queries.length === 0) return []
+
+            const allocations = await viemClient.multicall({
+                contracts: queries.map(
+                    ({ operatorSet, strategy }) =>
+                        ({
+                            address: allocationManager,
+                            abi: EIGENLAYER_ABI,
+                            functionName: 'getAllocation',
+                            args: [getAddress(operator), operatorSet, strategy]
+                        }) as const
+                ),
+                allowFailure: false
+            })
+
+            return [
+                ...new Set(
+                    queries
+                        .filter((_, i) => allocations[i].currentMagnitude > 0n)
+                        .map(({ strategy }) => strategy as string)
+                )
+            ]
+        })
+    )
+}
+
+/**
+ * Compares on-chain operator shares with the EE API. Failures to reach the EE API are logged, never thrown,
+ * so the cross-check cannot stop a workflow
+ *
+ * @param states
+ * @param strategies
+ * @returns
+ */
+async function crossCheckOperatorStrategies(
+    states: OperatorStrategyState[],
+    strategies: string[]
+): Promise<OperatorStrategyDisagreement[]> {
+    const results = await Promise.allSettled(states.map(({ operator }) => fetchOperatorShares(operator)))
+    const eeApiStrategies = new Map<string, string[]>()
+
+    results.forEach((result, index) => {
+        const operator = states[index].operator.toLowerCase()
+
+        if (result.status === 'fulfilled') {
+            eeApiStrategies.set(operator, result.value)
+        } else {
+            log.warn(`Skipping EE API cross-check of operator ${operator}: ${result.reason.message}`)
+        }
+    })
+
+    return compareOperatorStrategies(
+        states.filter(({ operator }) => eeApiStrategies.has(operator.toLowerCase())),
+        eeApiStrategies,
+        strategies
+    )
+}
+
+/**
+ * Fetches the strategies an operator holds shares in from the EE API
+ *
+ * @param operator
+ * @returns
+ */
+async function fetchOperatorShares(operator: string): Promise<string[]> {
+    const response = await tracedFetch(
+        `${EE_API_URL}/operators/${operator.toLowerCase()}`,
+        { headers: { 'X-API-Token': `${process.env.EE_API_TOKEN}` } },
+        { sendRunId: true }
+    )
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch operator ${operator}: ${response.status} ${response.statusText}`)
+    }
+
+    return ((await response.json()) as OperatorResponse).shares.map((share) => share.strategyAddress)
+}
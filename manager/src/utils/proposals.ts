@@ -0,0 +1,186 @@
+import type { Hex } from 'viem'
+import { apiKit } from './safe'
+import { getPendingProposals } from './forge'
+import { type Deployment, getMultisigAddress, isContractOurs } from './deployment'
+import { type DecodedCall, decodeSafeCalls, formatArgs } from './decode'
+import { getOpenLedgerEntries } from './ledger'
+import { createLogger } from './logger'
+import { recordSafeQueue } from './metrics'
+
+export interface PendingProposal {
+    multisig: 'admin' | 'pauser'
+    safeAddress: string
+    nonce: number
+    safeTxHash: string
+    title: string | null
+    confirmations: number
+    threshold: number
+    submissionDate: string
+    age: number // seconds
+    calls: DecodedCall[]
+    indexed: boolean // False for proposals in the ledger that the transaction service does not list yet
+}
+
+export interface SafeQueue {
+    multisig: 'admin' | 'pauser'
+    safeAddress: string
+    currentNonce: number
+    threshold: number
+    proposals: PendingProposal[]
+    nonceGaps: number[] // Nonces between the current nonce and the highest pending nonce with no proposal
+}
+
+const proposalsLog = createLogger('Proposals')
+
+/**
+ * Returns every pending proposal on a multisig, ordered by nonce, with its calls decoded against the LAT ABIs
+ * MultiSend proposals are unwrapped into one call per inner transaction. The queue size is recorded as metrics
+ * Open proposals from the ledger that the transaction service does not list yet are included, so workflows
+ * do not propose them again
+ *
+ * @param deployment
+ * @param multisig
+ * @returns
+ */
+export async function inspectPendingProposals(
+    deployment: Deployment,
+    multisig: 'admin' | 'pauser'
+): Promise<SafeQueue> {
+    const safeAddress = getMultisigAddress(deployment, multisig)
+
+    const [safeInfo, pendingTransactions, ledgerEntries] = await Promise.all([
+        apiKit.getSafeInfo(safeAddress),
+        getPendingProposals(deployment, multisig),
+        getOpenLedgerEntries(safeAddress)
+    ])
+
+    const currentNonce = Number(safeInfo.nonce)
+    const now = Date.now()
+
+    const proposals: PendingProposal[] = pendingTransactions.map((tx) => ({
+        multisig,
+        safeAddress,
+        nonce: Number(tx.nonce),
+        safeTxHash: tx.safeTxHash,
+        title: getTitle(tx.origin),
+        confirmations: tx.confirmations?.length ?? 0,
+        threshold: tx.confirmationsRequired ?? safeInfo.threshold,
+        submissionDate: tx.submissionDate,
+        age: Math.floor((now - new Date(tx.submissionDate).getTime()) / 1000),
+        calls: decodeSafeCalls({
+            to: tx.to,
+            value: tx.value,
+            data: (tx.data ?? '0x') as Hex,
+            operation: tx.operation
+        }),
+        indexed: true
+    }))
+    const indexedHashes = new Set(proposals.map((proposal) => proposal.safeTxHash.toLowerCase()))
+
+    for (const entry of ledgerEntries) {
+        if (entry.nonce < currentNonce || indexedHashes.has(entry.safeTxHash.toLowerCase())) continue
+
+        proposals.push({
+            multisig,
+            safeAddress,
+            nonce: entry.nonce,
+            safeTxHash: entry.safeTxHash,
+            title: entry.title,
+            confirmations: 0,
+            threshold: safeInfo.threshold,
+            submissionDate: entry.proposedAt,
+            age: Math.floor((now - new Date(entry.proposedAt).getTime()) / 1000),
+            calls: decodeSafeCalls(entry.transaction),
+            indexed: false
+        })
+    }
+    proposals.sort((a, b) => a.nonce - b.nonce)
+
+    const pendingNonces = new Set(proposals.map((proposal) => proposal.nonce))
+    const highestNonce = Math.max(currentNonce - 1, ...pendingNonces)
+    const nonceGaps: number[] = []
+
+    for (let nonce = currentNonce; nonce < highestNonce; nonce++) {
+        if (!pendingNonces.has(nonce)) nonceGaps.push(nonce)
+    }
+
+    const queue = { multisig, safeAddress, currentNonce, threshold: safeInfo.threshold, proposals, nonceGaps }
+    recordSafeQueue(queue)
+
+    return queue
+}
+
+/**
+ * Returns the pending proposals that call any of `functionNames` on the LAT contracts
+ *
+ * @param deployment
+ * @param queues
+ * @param functionNames
+ * @returns
+ */
+export function findConflictingProposals(
+    deployment: Deployment,
+    queues: SafeQueue[],
+    functionNames: string[]
+): PendingProposal[] {
+    return queues
+        .flatMap((queue) => queue.proposals)
+        .filter((proposal) =>
+            proposal.calls.some(
+                (call) =>
+                    isContractOurs(deployment, call.to) &&
+                    call.functionName !== null &&
+                    functionNames.includes(call.functionName)
+            )
+        )
+}
+
+/**
+ * Prints a multisig queue with every decoded call
+ *
+ * @param deployment
+ * @param queue
+ */
+export function printSafeQueue(deployment: Deployment, queue: SafeQueue) {
+    proposalsLog.info(
+        `${queue.multisig} multisig ${queue.safeAddress}: nonce ${queue.currentNonce}, threshold ${queue.threshold}, ${queue.proposals.length} pending`
+    )
+
+    if (queue.nonceGaps.length > 0) {
+        proposalsLog.warn(`Nonce gaps: ${queue.nonceGaps.join(', ')}`)
+    }
+
+    for (const proposal of queue.proposals) {
+        proposalsLog.info(
+            `  #${proposal.nonce} ${proposal.title ?? '(no title)'} - ${proposal.confirmations}/${proposal.threshold} confirmations, ${formatAge(proposal.age)} old${proposal.indexed ? '' : ' (in ledger, not on the transaction service)'}`
+        )
+        proposalsLog.info(`    safeTxHash: ${proposal.safeTxHash}`)
+
+        for (const call of proposal.calls) {
+            const target = isContractOurs(deployment, call.to) ? call.to : `${call.to} (external)`
+            proposalsLog.info(
+                call.functionName
+                    ? `    ${target}: ${call.functionName}(${formatArgs(call.args).slice(1, -1)})`
+                    : `    ${target}: unknown selector ${call.data.slice(0, 10)}`
+            )
+        }
+    }
+}
+
+// --- Helper functions ---
+
+function getTitle(origin: string | null | undefined): string | null {
+    if (!origin) return null
+
+    try {
+        return JSON.parse(origin).title ?? null
+    } catch {
+        return origin
+    }
+}
+
+function formatAge(seconds: number): string {
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`
+    return `${Math.floor(seconds / 86400)}d`
+}
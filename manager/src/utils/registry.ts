@@ -0,0 +1,233 @@
+import fs from 'node:fs/promises'
+import type { Address } from 'viem'
+import { getAddress, isAddress } from 'viem/utils'
+import { type AllocationPolicyConfig, createAllocationPolicy } from '../policies/allocation'
+import { type ReservePolicyConfig, validateReservePolicy } from '../policies/reserve'
+import { getConfig, resolveConfigPath } from './config'
+import { type Deployment, type DeploymentSource, loadDeployment } from './deployment'
+import { DATA_SOURCE_TYPES, type DataSourceType } from './dataSource'
+import { NETWORK } from './forge'
+import { createLogger } from './logger'
+import { getRunReport, recordLatResult, withRun } from './run'
+
+export interface LatRegistryEntry {
+    name: string // e.g. `xeigenda-eth`, used in logs and run reports
+    enabled: boolean
+    deployment: DeploymentSource
+    safes: { admin: Address; pauser: Address } // Must match the deployment's roles. The env signer keys must be owners of both
+    allocation?: AllocationPolicyConfig // Overrides the `allocation` config for this LAT
+    dataSource?: DataSourceType // Overrides the `dataSource` config for this LAT
+    reserve?: ReservePolicyConfig // Overrides the `reserve` config for this LAT
+    operators?: Address[] // Overrides the `provisioning` config for this LAT
+}
+
+// Registry entry as read from the file, before validation
+type RawLatRegistryEntry = Partial<{
+    name: unknown
+    enabled: boolean
+    deployment: { repo?: unknown; outputFile?: string }
+    safes: { admin?: unknown; pauser?: unknown }
+    allocation: AllocationPolicyConfig
+    dataSource: unknown
+    reserve: ReservePolicyConfig
+    operators: unknown
+}>
+
+const log = createLogger('Registry')
+
+/**
+ * Returns whether the manager runs in multi-LAT mode, i.e. a `registry` file is set in config
+ *
+ * @returns
+ */
+export function isMultiLat(): boolean {
+    return !!getConfig().registry
+}
+
+/**
+ * Reads and validates the LAT registry file set in config
+ * Entries without a `deployment.outputFile` default to `/<network>/<name>/deployment_data.json`
+ *
+ * @returns
+ */
+export async function loadRegistry(): Promise<LatRegistryEntry[]> {
+    const { registry } = getConfig()
+    if (!registry) throw new Error('No LAT registry set in config')
+
+    let data: unknown
+    try {
+        data = JSON.parse(await fs.readFile(resolveConfigPath(registry), 'utf8'))
+    } catch (error) {
+        throw new Error(`Failed to read LAT registry ${registry}: ${error.message}`)
+    }
+
+    return parseRegistry(data, registry)
+}
+
+/**
+ * Validates registry data and returns its entries with checksummed Safe addresses
+ * Throws an error naming the first missing or malformed field
+ *
+ * @param data
+ * @param registryFile
+ * @returns
+ */
+export function parseRegistry(data: unknown, registryFile: string): LatRegistryEntry[] {
+    const lats = (data as { lats?: unknown })?.lats
+    if (!Array.isArray(lats)) throw invalidField('lats', 'is not a list', registryFile)
+
+    const names = new Set<string>()
+
+    return lats.map((lat, index) => {
+        const fieldPath = `lats.${index}`
+        const entry = (lat ?? {}) as RawLatRegistryEntry
+
+        if (typeof entry.name !== 'string' || !/^[\w-]+$/.test(entry.name)) {
+            throw invalidField(
+                `${fieldPath}.name`,
+                `is not a valid LAT name: ${JSON.stringify(entry.name)}`,
+                registryFile
+            )
+        }
+        if (names.has(entry.name))
+            throw invalidField(`${fieldPath}.name`, `is a duplicate: ${entry.name}`, registryFile)
+        names.add(entry.name)
+
+        const repo = entry.deployment?.repo
+        if (repo !== undefined && (typeof repo !== 'string' || repo.split('/').length < 2)) {
+            throw invalidField(`${fieldPath}.deployment.repo`, `is not <owner>/<repo>[/<path>]: ${repo}`, registryFile)
+        }
+
+        if (entry.allocation !== undefined) {
+            try {
+                createAllocationPolicy(entry.allocation)
+            } catch (error) {
+                throw invalidField(`${fieldPath}.allocation`, `is invalid: ${error.message}`, registryFile)
+            }
+        }
+
+        if (entry.dataSource !== undefined && !DATA_SOURCE_TYPES.includes(entry.dataSource as DataSourceType)) {
+            throw invalidField(
+                `${fieldPath}.dataSource`,
+                `is not one of ${DATA_SOURCE_TYPES.join(', ')}: ${entry.dataSource}`,
+                registryFile
+            )
+        }
+
+        if (entry.reserve !== undefined) {
+            try {
+                validateReservePolicy(entry.reserve)
+            } catch (error) {
+                throw invalidField(`${fieldPath}.reserve`, `is invalid: ${error.message}`, registryFile)
+            }
+        }
+
+        if (entry.operators !== undefined && !Array.isArray(entry.operators)) {
+            throw invalidField(`${fieldPath}.operators`, 'is not a list', registryFile)
+        }
+
+        return {
+            name: entry.name,
+            enabled: entry.enabled ?? true,
+            deployment: {
+                repo,
+                outputFile: entry.deployment?.outputFile ?? `/${NETWORK}/${entry.name}/deployment_data.json`
+            },
+            safes: {
+                admin: toAddress(entry.safes?.admin, `${fieldPath}.safes.admin`, registryFile),
+                pauser: toAddress(entry.safes?.pauser, `${fieldPath}.safes.pauser`, registryFile)
+            },
+            allocation: entry.allocation,
+            dataSource: entry.dataSource as DataSourceType | undefined,
+            reserve: entry.reserve,
+            operators: entry.operators?.map((operator, operatorIndex) =>
+                toAddress(operator, `${fieldPath}.operators.${operatorIndex}`, registryFile)
+            )
+        }
+    })
+}
+
+/**
+ * Loads the deployment of a registry entry and checks its roles against the entry's Safes
+ *
+ * @param lat
+ * @returns
+ */
+export async function loadLatDeployment(lat: LatRegistryEntry): Promise<Deployment> {
+    const deployment = await loadDeployment(lat.deployment.outputFile)
+    assertSafes(lat, deployment)
+    return deployment
+}
+
+/**
+ * Runs a workflow once per enabled LAT in the registry, each under its own run and run report
+ * A LAT that fails does not stop the others. The current run records the result of each LAT and
+ * fails if any LAT failed, so a retry of the current run only re-runs the LATs that failed
+ *
+ * @param name
+ * @param workflow
+ * @returns
+ */
+export async function forEachLat(name: string, workflow: (lat: LatRegistryEntry) => Promise<unknown>) {
+    const lats = (await loadRegistry()).filter((lat) => lat.enabled)
+    const succeeded = new Set(
+        getRunReport()
+            ?.lats.filter((result) => result.status === 'success')
+            .map((result) => result.name)
+    )
+    const failed: string[] = []
+
+    for (const lat of lats) {
+        if (succeeded.has(lat.name)) continue
+
+        const startedAt = Date.now()
+        let runId: string | undefined
+
+        try {
+            await withRun(`${name}-${lat.name}`, async () => {
+                runId = getRunReport()?.runId
+                await workflow(lat)
+            })
+
+            recordLatResult({ name: lat.name, runId, status: 'success', durationMs: Date.now() - startedAt })
+        } catch (error) {
+            failed.push(lat.name)
+            recordLatResult({
+                name: lat.name,
+                runId,
+                status: 'failed',
+                durationMs: Date.now() - startedAt,
+                error: error.message
+            })
+            log.error(`${name} failed for ${lat.name}`, error)
+        }
+    }
+
+    log.info(`${name}: ${lats.length - failed.length} of ${lats.length} LATs succeeded`)
+
+    if (failed.length > 0) throw new Error(`${name} failed for ${failed.join(', ')}`)
+}
+
+// --- Helper functions ---
+
+function assertSafes(lat: LatRegistryEntry, deployment: Deployment) {
+    for (const multisig of ['admin', 'pauser'] as const) {
+        if (lat.safes[multisig] !== deployment[multisig]) {
+            throw new Error(
+                `${lat.name}: registry ${multisig} Safe ${lat.safes[multisig]} does not match deployment ${multisig} ${deployment[multisig]}`
+            )
+        }
+    }
+}
+
+function toAddress(value: unknown, fieldPath: string, registryFile: string): Address {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+        throw invalidField(fieldPath, `is not an address: ${JSON.stringify(value)}`, registryFile)
+    }
+
+    return getAddress(value)
+}
+
+function invalidField(fieldPath: string, reason: string, registryFile: string): Error {
+    return new Error(`Invalid LAT registry ${registryFile}: ${fieldPath} ${reason}`)
+}
@@ -0,0 +1,91 @@
+import { Defender } from '@openzeppelin/defender-sdk'
+import type { Address, Hex, TransactionReceipt } from 'viem'
+import { getAddress } from 'viem/utils'
+import { getConfig } from './config'
+import { createLogger } from './logger'
+import { getViemClient } from './viemClient'
+
+export interface RelayerCall {
+    to: Address
+    data: Hex
+    value?: bigint
+    gas?: bigint
+}
+
+// Statuses after which a relayer transaction no longer changes
+const MINED_STATUSES = ['mined', 'confirmed']
+const FAILED_STATUSES = ['failed', 'expired']
+
+let relayer: Defender['relaySigner']
+
+const log = createLogger('Relayer')
+
+/**
+ * Returns the address of the Defender Relayer set in `DEFENDER_RELAYER_API_KEY`
+ *
+ * @returns
+ */
+export async function getRelayerAddress(): Promise<Address> {
+    const { address } = (await getRelayer().getRelayer()) as { address: string }
+    return getAddress(address)
+}
+
+/**
+ * Sends a transaction through the Defender Relayer and waits until it is mined
+ * Defender may resubmit the transaction with a higher gas price, so the relayer transaction is
+ * tracked by ID and its receipt is read from the hash it was last sent with
+ *
+ * @param call
+ * @returns
+ */
+export async function sendRelayerTransaction(call: RelayerCall): Promise<TransactionReceipt> {
+    const { speed, pollInterval, timeout } = getConfig().hotWallet
+    const viemClient = getViemClient()
+
+    // Defender needs a gas limit. Leave headroom, since the estimate is made before the transaction is priced
+    const gas = call.gas ?? (await viemClient.estimateGas({ account: await getRelayerAddress(), ...call }))
+
+    let tx = await getRelayer().sendTransaction({
+        to: call.to,
+        data: call.data,
+        value: (call.value ?? 0n).toString(),
+        gasLimit: ((gas * 12n) / 10n).toString(),
+        speed,
+        validUntil: new Date(Date.now() + timeout * 1000).toISOString()
+    })
+
+    log.info(`Sent relayer tx ${tx.transactionId} (${tx.hash})`)
+
+    const deadline = Date.now() + timeout * 1000
+
+    while (!MINED_STATUSES.includes(tx.status)) {
+        if (FAILED_STATUSES.includes(tx.status)) throw new Error(`Relayer tx ${tx.transactionId} ${tx.status}`)
+        if (Date.now() > deadline) throw new Error(`Relayer tx ${tx.transactionId} not mined after ${timeout}s`)
+
+        await new Promise((resolve) => setTimeout(resolve, pollInterval * 1000))
+
+        const previousHash = tx.hash
+        tx = await getRelayer().getTransaction(tx.transactionId)
+
+        if (tx.hash !== previousHash) log.info(`Relayer tx ${tx.transactionId} resubmitted as ${tx.hash}`)
+    }
+
+    return viemClient.waitForTransactionReceipt({ hash: tx.hash as Hex })
+}
+
+// --- Helper functions ---
+
+function getRelayer(): Defender['relaySigner'] {
+    if (!relayer) {
+        const relayerApiKey = process.env.DEFENDER_RELAYER_API_KEY
+        const relayerApiSecret = process.env.DEFENDER_RELAYER_API_SECRET
+
+        if (!relayerApiKey || !relayerApiSecret) {
+            throw new Error('DEFENDER_RELAYER_API_KEY and DEFENDER_RELAYER_API_SECRET must be set')
+        }
+
+        relayer = new Defender({ relayerApiKey, relayerApiSecret }).relaySigner
+    }
+
+    return relayer
+}
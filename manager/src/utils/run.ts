@@ -0,0 +1,212 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+import type { OperatorHealth } from '../policies/operatorHealth'
+import type { ReserveDecision } from '../policies/reserve'
+import { getConfig, resolveConfigPath } from './config'
+
+export interface StepRecord {
+    name: string
+    startedAt: string
+    durationMs: number
+    success: boolean
+    error?: string
+}
+
+export interface ProposalRecord {
+    title: string
+    multisig: 'admin' | 'pauser'
+    safeAddress: string
+    nonce: number
+    safeTxHash: string
+    dryRun: boolean
+}
+
+export interface LatResult {
+    name: string
+    runId?: string // Run ID of the LAT's own run report
+    status: 'success' | 'failed'
+    durationMs: number
+    error?: string
+}
+
+export interface RunReport {
+    runId: string
+    name: string
+    startedAt: string
+    finishedAt: string | null
+    durationMs: number | null
+    status: 'running' | 'success' | 'failed'
+    error?: string
+    steps: StepRecord[]
+    allocations: NodeAllocation[]
+    reserves: ReserveDecision[] // Amounts of each asset staked and held back, by `stakeUnstakedAssets`
+    proposals: ProposalRecord[]
+    lats: LatResult[] // Per-LAT results, in multi-LAT mode
+    operators: OperatorHealth[] // Operator health checks, by `monitorOperators`
+    warnings: string[]
+}
+
+const storage = new AsyncLocalStorage<RunReport>()
+
+/**
+ * Runs a workflow or command under a new run ID and writes its run report when it finishes
+ * Every log line, forge invocation, proposal and LAT or EE API call made during the run is tagged with the run ID
+ *
+ * @param name
+ * @param fn
+ * @returns
+ */
+export async function withRun<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const report: RunReport = {
+        runId: randomUUID().slice(0, 8),
+        name,
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        durationMs: null,
+        status: 'running',
+        steps: [],
+        allocations: [],
+        reserves: [],
+        proposals: [],
+        lats: [],
+        operators: [],
+        warnings: []
+    }
+
+    try {
+        const result = await storage.run(report, fn)
+        report.status = 'success'
+        return result
+    } catch (error) {
+        report.status = 'failed'
+        report.error = error.message
+        throw error
+    } finally {
+        report.finishedAt = new Date().toISOString()
+        report.durationMs = Date.parse(report.finishedAt) - Date.parse(report.startedAt)
+        await writeRunReport(report)
+    }
+}
+
+/**
+ * Runs one step of the current run and records how long it took
+ *
+ * @param name
+ * @param fn
+ * @returns
+ */
+export async function step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const report = storage.getStore()
+    const startedAt = new Date()
+
+    try {
+        const result = await fn()
+        report?.steps.push({ name, startedAt: startedAt.toISOString(), durationMs: elapsed(startedAt), success: true })
+        return result
+    } catch (error) {
+        report?.steps.push({
+            name,
+            startedAt: startedAt.toISOString(),
+            durationMs: elapsed(startedAt),
+            success: false,
+            error: error.message
+        })
+        throw error
+    }
+}
+
+/**
+ * Returns the report of the current run, if any
+ *
+ * @returns
+ */
+export function getRunReport(): RunReport | undefined {
+    return storage.getStore()
+}
+
+/**
+ * Returns the ID of the current run, if any
+ *
+ * @returns
+ */
+export function getRunId(): string | undefined {
+    return storage.getStore()?.runId
+}
+
+/**
+ * Records the allocations computed during the current run
+ *
+ * @param allocations
+ */
+export function recordAllocations(allocations: NodeAllocation[]) {
+    storage.getStore()?.allocations.push(...allocations)
+}
+
+/**
+ * Records how much of each unstaked balance the current run stakes and holds back
+ *
+ * @param reserves
+ */
+export function recordReserves(reserves: ReserveDecision[]) {
+    storage.getStore()?.reserves.push(...reserves)
+}
+
+/**
+ * Records a proposal made (or printed, in dry-run mode) during the current run
+ *
+ * @param proposal
+ */
+export function recordProposal(proposal: ProposalRecord) {
+    storage.getStore()?.proposals.push(proposal)
+}
+
+/**
+ * Records the result of running a workflow for one LAT during the current run
+ *
+ * @param result
+ */
+export function recordLatResult(result: LatResult) {
+    storage.getStore()?.lats.push(result)
+}
+
+/**
+ * Records the health of the operators checked during the current run
+ *
+ * @param operators
+ */
+export function recordOperatorHealth(operators: OperatorHealth[]) {
+    storage.getStore()?.operators.push(...operators)
+}
+
+/**
+ * Records a warning raised during the current run
+ *
+ * @param message
+ */
+export function recordWarning(message: string) {
+    storage.getStore()?.warnings.push(message)
+}
+
+// --- Helper functions ---
+
+function elapsed(startedAt: Date): number {
+    return Date.now() - startedAt.getTime()
+}
+
+async function writeRunReport(report: RunReport) {
+    const { reports } = getConfig()
+    if (!reports.enabled) return
+
+    try {
+        const dir = resolveConfigPath(reports.dir)
+        const fileName = `${report.startedAt.replace(/[:.]/g, '-')}-${report.name}-${report.runId}.json`
+
+        await fs.mkdir(dir, { recursive: true })
+        await fs.writeFile(path.join(dir, fileName), JSON.stringify(report, null, 2))
+    } catch (error) {
+        console.log(`[Manager][Warning] Failed to write run report: ${error.message}`)
+    }
+}
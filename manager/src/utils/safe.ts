@@ -2,17 +2,32 @@ import Safe from '@safe-global/protocol-kit'
 import SafeApiKit from '@safe-global/api-kit'
 import { getChain } from './viemClient'
 
-export const protocolKitOwnerAdmin = await Safe.init({
-    provider: process.env.RPC_URL || '',
-    signer: process.env.SIGNER_ADMIN_PRIVATE_KEY || '',
-    safeAddress: process.env.MULTISIG_ADMIN_PUBLIC_KEY || ''
-})
+const protocolKits = new Map<string, Promise<Safe>>()
 
-export const protocolKitOwnerPauser = await Safe.init({
-    provider: process.env.RPC_URL || '',
-    signer: process.env.SIGNER_PAUSER_PRIVATE_KEY || '',
-    safeAddress: process.env.MULTISIG_PAUSER_PUBLIC_KEY || ''
-})
+/**
+ * Returns the protocol kit for a multisig, used to create and hash transactions
+ * Kits hold no signer, proposals are signed with `signSafeTxHash`
+ * Kits are initialized once per multisig address
+ *
+ * @param safeAddress
+ * @returns
+ */
+export function getProtocolKit(safeAddress: string): Promise<Safe> {
+    const key = safeAddress.toLowerCase()
+
+    if (!protocolKits.has(key)) {
+        const protocolKit = Safe.init({
+            provider: process.env.RPC_URL || '',
+            safeAddress
+        })
+
+        // Allow a failed init to be retried
+        protocolKit.catch(() => protocolKits.delete(key))
+        protocolKits.set(key, protocolKit)
+    }
+
+    return protocolKits.get(key) as Promise<Safe>
+}
 
 export const apiKit = new SafeApiKit({
     ...(BigInt(getChain().id) === 17000n
@@ -0,0 +1,193 @@
+import cron, { type ScheduledTask } from 'node-cron'
+import fs from 'node:fs/promises'
+import { type RetryConfig, type ScheduleConfig, getConfig, resolveConfigPath } from './config'
+import { sendAlert } from './alerts'
+import { createLogger } from './logger'
+import { recordWorkflowResult } from './metrics'
+import { step, withRun } from './run'
+
+export interface JobState {
+    name: string
+    cron: string
+    running: boolean
+    lastRun?: {
+        startedAt: string
+        finishedAt: string
+        success: boolean
+        attempts: number
+        error?: string
+    }
+    nextRun: string | null
+}
+
+interface Job {
+    task: ScheduledTask
+    state: JobState
+}
+
+const jobs = new Map<string, Job>()
+
+const log = createLogger('Scheduler')
+
+/**
+ * Schedules a workflow on its cron expression
+ * A run that is still in progress (including its retries) causes the next tick to be skipped
+ *
+ * @param name
+ * @param workflow
+ * @param schedule
+ * @param retry
+ * @returns
+ */
+export function scheduleWorkflow(
+    name: string,
+    workflow: () => Promise<unknown>,
+    schedule: ScheduleConfig,
+    retry: RetryConfig
+): JobState {
+    if (jobs.has(name)) throw new Error(`Workflow ${name} is already scheduled`)
+    if (!cron.validate(schedule.cron)) throw new Error(`Invalid cron expression for ${name}: ${schedule.cron}`)
+
+    const state: JobState = { name, cron: schedule.cron, running: false, nextRun: null }
+
+    const task = cron.schedule(
+        schedule.cron,
+        async () => {
+            if (state.running) {
+                log.info(`${name}: previous run still in progress. Skipping...`)
+                return
+            }
+
+            await runJob(name, workflow, retry)
+        },
+        { name, noOverlap: true, timezone: getConfig().scheduler.timezone }
+    )
+
+    state.nextRun = task.getNextRun()?.toISOString() ?? null
+    jobs.set(name, { task, state })
+
+    log.info(`Scheduled ${name} (${schedule.cron}), next run at ${state.nextRun}`)
+
+    return state
+}
+
+/**
+ * Runs a workflow with retries on a backoff, recording its last and next run
+ * The whole run, including retries, shares one run ID and run report, with one step per attempt
+ * The result of the run is recorded as metrics, and a run that fails after all retries is alerted
+ *
+ * @param name
+ * @param workflow
+ * @param retry
+ * @returns
+ */
+export async function runWithRetry(name: string, workflow: () => Promise<unknown>, retry: RetryConfig) {
+    let attempts = 0
+
+    const run = async () => {
+        while (true) {
+            attempts++
+
+            try {
+                await step(`attempt ${attempts}`, workflow)
+                return
+            } catch (error) {
+                log.error(`${name}: failed at ${new Date().toISOString()}`, error)
+
+                if (attempts > retry.maxRetries) {
+                    log.error(`${name}: max retries reached. Workflow failed.`)
+                    throw error
+                }
+
+                const delay = getRetryDelay(attempts, retry)
+                log.info(`${name}: retrying in ${delay}s... (Attempt ${attempts} of ${retry.maxRetries})`)
+                await new Promise((resolve) => setTimeout(resolve, delay * 1000))
+            }
+        }
+    }
+
+    try {
+        await withRun(name, run)
+        recordWorkflowResult(name, true)
+        return { success: true, attempts }
+    } catch (error) {
+        recordWorkflowResult(name, false)
+        await sendAlert({
+            type: 'workflowFailed',
+            key: name,
+            severity: 'critical',
+            title: `${name} failed`,
+            message: `Failed after ${attempts} attempt(s): ${error.message}`
+        })
+        return { success: false, attempts, error: error.message as string }
+    }
+}
+
+/**
+ * Returns the delay in seconds before the given retry attempt
+ *
+ * @param attempt
+ * @param retry
+ * @returns
+ */
+export function getRetryDelay(attempt: number, retry: RetryConfig): number {
+    return Math.min(retry.initialDelay * retry.backoffFactor ** (attempt - 1), retry.maxDelay)
+}
+
+/**
+ * Returns the state of all scheduled workflows
+ *
+ * @returns
+ */
+export function getJobStates(): JobState[] {
+    return [...jobs.values()].map(({ task, state }) => ({
+        ...state,
+        nextRun: task.getNextRun()?.toISOString() ?? null
+    }))
+}
+
+/**
+ * Stops all scheduled workflows
+ *
+ */
+export async function stopScheduler() {
+    for (const { task } of jobs.values()) {
+        await task.stop()
+    }
+    jobs.clear()
+}
+
+// --- Helper functions ---
+
+async function runJob(name: string, workflow: () => Promise<unknown>, retry: RetryConfig) {
+    const job = jobs.get(name)
+    if (!job) return
+
+    const { state, task } = job
+    const startedAt = new Date().toISOString()
+
+    state.running = true
+    log.info(`${name}: starting run`)
+
+    try {
+        const result = await runWithRetry(name, workflow, retry)
+        state.lastRun = { startedAt, finishedAt: new Date().toISOString(), ...result }
+
+        log.info(`${name}: run ${result.success ? 'succeeded' : 'failed'} after ${result.attempts} attempt(s)`)
+    } finally {
+        state.running = false
+        state.nextRun = task.getNextRun()?.toISOString() ?? null
+        log.info(`${name}: next run at ${state.nextRun}`)
+    }
+
+    await saveJobStates()
+}
+
+async function saveJobStates() {
+    try {
+        const stateFile = resolveConfigPath(getConfig().scheduler.stateFile)
+        await fs.writeFile(stateFile, JSON.stringify(getJobStates(), null, 2))
+    } catch (error) {
+        log.warn(`Failed to save job states: ${error.message}`)
+    }
+}
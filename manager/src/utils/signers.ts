@@ -0,0 +1,279 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import {
+    type Account,
+    type Address,
+    type Hex,
+    type TransactionRequest,
+    bytesToHex,
+    concat,
+    formatTransactionRequest,
+    keccak256,
+    stringToHex
+} from 'viem'
+import { privateKeyToAccount, toAccount } from 'viem/accounts'
+import { getAddress, isAddress } from 'viem/utils'
+import { tracedFetch } from './http'
+import { createLogger } from './logger'
+
+export type SignerRole = 'admin' | 'pauser' | 'priceUpdater' | 'delegationApprover'
+
+export type SignerBackend = 'privateKey' | 'keystore' | 'remote'
+
+// Env var prefix of each role, e.g. `SIGNER_ADMIN_PRIVATE_KEY`
+const ENV_PREFIXES: Record<SignerRole, string> = {
+    admin: 'SIGNER_ADMIN',
+    pauser: 'SIGNER_PAUSER',
+    priceUpdater: 'PRICE_UPDATER',
+    delegationApprover: 'DELEGATION_APPROVER'
+}
+
+const signers = new Map<SignerRole, Promise<Account>>()
+
+const log = createLogger('Signer')
+
+/**
+ * Returns the signer of a role, created on first use
+ * The backend is picked from the role's env vars, e.g. for the admin role:
+ * - `SIGNER_ADMIN_PRIVATE_KEY`: Raw private key
+ * - `SIGNER_ADMIN_KEYSTORE`: Encrypted JSON keystore, unlocked with the password in `SIGNER_ADMIN_KEYSTORE_PASSWORD_FILE`
+ *   or, without one, a password prompt
+ * - `SIGNER_ADMIN_REMOTE_URL`: Web3Signer-compatible JSON-RPC signer, signing as `SIGNER_ADMIN_PUBLIC_KEY` if set
+ *
+ * @param role
+ * @returns
+ */
+export function getSigner(role: SignerRole): Promise<Account> {
+    if (!signers.has(role)) {
+        const signer = createSigner(role)
+
+        // Allow a failed signer to be retried
+        signer.catch(() => signers.delete(role))
+        signers.set(role, signer)
+    }
+
+    return signers.get(role) as Promise<Account>
+}
+
+/**
+ * Returns whether a signer is set for a role
+ *
+ * @param role
+ * @returns
+ */
+export function isSignerSet(role: SignerRole): boolean {
+    return getBackend(role) !== undefined
+}
+
+/**
+ * Signs a Safe transaction hash with the signer of a role, in the `eth_sign` format expected by the Safe
+ *
+ * @param role
+ * @param safeTxHash
+ * @returns
+ */
+export async function signSafeTxHash(role: SignerRole, safeTxHash: Hex): Promise<{ signer: Address; signature: Hex }> {
+    const signer = await getSigner(role)
+    if (!signer.signMessage) throw new Error(`Signer of ${role} cannot sign messages`)
+
+    const signature = await signer.signMessage({ message: { raw: safeTxHash } })
+
+    // Safe marks `eth_sign` signatures by adding 4 to v
+    let v = Number.parseInt(signature.slice(-2), 16)
+    if (v < 27) v += 27
+
+    return { signer: signer.address, signature: `${signature.slice(0, -2)}${(v + 4).toString(16)}` as Hex }
+}
+
+/**
+ * Decrypts a V3 JSON keystore, as written by geth, foundry (`cast wallet`) or ethers
+ *
+ * @param keystore
+ * @param password
+ * @returns
+ */
+export function decryptKeystore(keystore: string, password: string): Hex {
+    const json = JSON.parse(keystore)
+    const params = json.crypto ?? json.Crypto
+
+    if (!params?.ciphertext || params.cipher !== 'aes-128-ctr') throw new Error('Unsupported keystore cipher')
+
+    const { kdf, kdfparams } = params
+    const salt = Buffer.from(kdfparams.salt, 'hex')
+    let derivedKey: Buffer
+
+    if (kdf === 'scrypt') {
+        derivedKey = crypto.scryptSync(password, salt, kdfparams.dklen, {
+            N: kdfparams.n,
+            r: kdfparams.r,
+            p: kdfparams.p,
+            maxmem: 256 * kdfparams.n * kdfparams.r
+        })
+    } else if (kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+        derivedKey = crypto.pbkdf2Sync(password, salt, kdfparams.c, kdfparams.dklen, 'sha256')
+    } else {
+        throw new Error(`Unsupported keystore kdf: ${kdf}`)
+    }
+
+    const ciphertext = Buffer.from(params.ciphertext, 'hex')
+    const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]))
+
+    if (mac.slice(2) !== params.mac.toLowerCase()) throw new Error('Invalid keystore password')
+
+    const decipher = crypto.createDecipheriv(
+        'aes-128-ctr',
+        derivedKey.subarray(0, 16),
+        Buffer.from(params.cipherparams.iv, 'hex')
+    )
+
+    return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]))
+}
+
+// --- Helper functions ---
+
+async function createSigner(role: SignerRole): Promise<Account> {
+    const prefix = ENV_PREFIXES[role]
+    const backend = getBackend(role)
+
+    if (!backend)
+        throw new Error(`No signer set for ${role}. Set one of ${prefix}_PRIVATE_KEY, _KEYSTORE or _REMOTE_URL`)
+
+    const expectedAddress = process.env[`${prefix}_PUBLIC_KEY`]
+    if (expectedAddress && !isAddress(expectedAddress, { strict: false })) {
+        throw new Error(`${prefix}_PUBLIC_KEY is not an address: ${expectedAddress}`)
+    }
+
+    let signer: Account
+
+    switch (backend) {
+        case 'privateKey':
+            signer = privateKeyToAccount(process.env[`${prefix}_PRIVATE_KEY`] as Hex)
+            break
+        case 'keystore':
+            signer = privateKeyToAccount(await unlockKeystore(role))
+            break
+        case 'remote':
+            signer = await createRemoteSigner(
+                process.env[`${prefix}_REMOTE_URL`] as string,
+                expectedAddress ? getAddress(expectedAddress) : undefined
+            )
+            break
+    }
+
+    if (expectedAddress && signer.address !== getAddress(expectedAddress)) {
+        throw new Error(`Signer of ${role} is ${signer.address}, but ${prefix}_PUBLIC_KEY is ${expectedAddress}`)
+    }
+
+    log.info(`Loaded ${backend} signer for ${role}: ${signer.address}`)
+
+    return signer
+}
+
+function getBackend(role: SignerRole): SignerBackend | undefined {
+    const prefix = ENV_PREFIXES[role]
+    const backends = (
+        [
+            ['privateKey', `${prefix}_PRIVATE_KEY`],
+            ['keystore', `${prefix}_KEYSTORE`],
+            ['remote', `${prefix}_REMOTE_URL`]
+        ] as const
+    ).filter(([, envVar]) => !!process.env[envVar])
+
+    if (backends.length > 1) {
+        throw new Error(`More than one signer set for ${role}: ${backends.map(([, envVar]) => envVar).join(', ')}`)
+    }
+
+    return backends[0]?.[0]
+}
+
+async function unlockKeystore(role: SignerRole): Promise<Hex> {
+    const prefix = ENV_PREFIXES[role]
+    const keystorePath = process.env[`${prefix}_KEYSTORE`] as string
+    const passwordFile = process.env[`${prefix}_KEYSTORE_PASSWORD_FILE`]
+
+    const keystore = await fs.readFile(keystorePath, 'utf8')
+    const password = passwordFile
+        ? (await fs.readFile(passwordFile, 'utf8')).trim()
+        : await promptPassword(`Password for ${role} keystore ${keystorePath}: `)
+
+    return decryptKeystore(keystore, password)
+}
+
+async function promptPassword(query: string): Promise<string> {
+    if (!process.stdin.isTTY) throw new Error('No keystore password file set and no terminal to prompt for one')
+
+    process.stdout.write(query)
+    process.stdin.setRawMode(true)
+    process.stdin.resume()
+
+    return new Promise((resolve, reject) => {
+        let password = ''
+
+        const done = (error?: Error) => {
+            process.stdin.off('data', onData)
+            process.stdin.setRawMode(false)
+            process.stdin.pause()
+            process.stdout.write('\n')
+            error ? reject(error) : resolve(password)
+        }
+
+        const onData = (chunk: Buffer) => {
+            for (const char of chunk.toString('utf8')) {
+                if (char === '\r' || char === '\n') return done()
+                if (char === '\u0003') return done(new Error('Password prompt cancelled'))
+
+                password = char === '\u007f' ? password.slice(0, -1) : password + char
+            }
+        }
+
+        process.stdin.on('data', onData)
+    })
+}
+
+async function createRemoteSigner(url: string, address?: Address): Promise<Account> {
+    let signerAddress = address
+
+    if (!signerAddress) {
+        const [account] = (await remoteRequest(url, 'eth_accounts', [])) as string[]
+        if (!account) throw new Error('Remote signer has no accounts')
+        signerAddress = getAddress(account)
+    }
+
+    return toAccount({
+        address: signerAddress,
+        signMessage: async ({ message }) => {
+            const data =
+                typeof message === 'string'
+                    ? stringToHex(message)
+                    : typeof message.raw === 'string'
+                      ? message.raw
+                      : bytesToHex(message.raw)
+
+            return (await remoteRequest(url, 'eth_sign', [signerAddress, data])) as Hex
+        },
+        signTransaction: async (transaction) =>
+            (await remoteRequest(url, 'eth_signTransaction', [
+                formatTransactionRequest({ ...(transaction as TransactionRequest), from: signerAddress })
+            ])) as Hex,
+        signTypedData: async (typedData) =>
+            (await remoteRequest(url, 'eth_signTypedData_v4', [
+                signerAddress,
+                JSON.stringify(typedData, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+            ])) as Hex
+    })
+}
+
+async function remoteRequest(url: string, method: string, params: unknown[]): Promise<unknown> {
+    const response = await tracedFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+    })
+
+    if (!response.ok) throw new Error(`Remote signer ${method} failed: ${response.status} ${response.statusText}`)
+
+    const { result, error } = await response.json()
+    if (error) throw new Error(`Remote signer ${method} failed: ${error.message ?? JSON.stringify(error)}`)
+
+    return result
+}
@@ -0,0 +1,107 @@
+import { type SafeTransaction, OperationType } from '@safe-global/types-kit'
+import { type Hex, BaseError, ContractFunctionRevertedError } from 'viem'
+import { decodeErrorResult, encodeFunctionData, getAddress, isHex } from 'viem/utils'
+import { LAT_ERRORS, MULTI_SEND_ABI } from './abis'
+import { type RawCall, decodeSafeCalls, formatArgs, packMultiSend } from './decode'
+import { getViemClient } from './viemClient'
+
+let multiSendCallOnlyCode: Hex | undefined
+
+/**
+ * Simulates a Safe transaction as the Safe would execute it, with `eth_call` from the Safe address
+ * Throws with the decoded revert reason if any call would fail
+ *
+ * @param safeTransaction
+ * @param safeAddress
+ * @param multiSendCallOnlyAddress
+ */
+export async function simulateSafeTransaction(
+    safeTransaction: SafeTransaction,
+    safeAddress: string,
+    multiSendCallOnlyAddress: string
+) {
+    const { data } = safeTransaction
+
+    await simulateSafeCalls(
+        decodeSafeCalls({ to: data.to, value: data.value, data: data.data as Hex, operation: data.operation }),
+        safeAddress,
+        multiSendCallOnlyAddress
+    )
+}
+
+/**
+ * Simulates a list of calls made in order by the Safe, all-or-nothing
+ * The Safe's code is overridden with MultiSendCallOnly so every call is made with the Safe as `msg.sender`
+ *
+ * @param calls
+ * @param safeAddress
+ * @param multiSendCallOnlyAddress
+ */
+export async function simulateSafeCalls(calls: RawCall[], safeAddress: string, multiSendCallOnlyAddress: string) {
+    if (calls.some((call) => call.operation !== OperationType.Call)) {
+        throw new Error('Simulation only supports calls, found a delegatecall')
+    }
+
+    const viemClient = getViemClient()
+    const safe = getAddress(safeAddress)
+
+    if (!multiSendCallOnlyCode) {
+        multiSendCallOnlyCode = await viemClient.getCode({ address: getAddress(multiSendCallOnlyAddress) })
+        if (!multiSendCallOnlyCode) throw new Error(`No MultiSendCallOnly code at ${multiSendCallOnlyAddress}`)
+    }
+
+    try {
+        await viemClient.call({
+            account: safe,
+            to: safe,
+            data: encodeFunctionData({
+                abi: MULTI_SEND_ABI,
+                functionName: 'multiSend',
+                args: [packMultiSend(calls)]
+            }),
+            stateOverride: [{ address: safe, code: multiSendCallOnlyCode }]
+        })
+    } catch (error) {
+        throw new Error(`Simulation reverted: ${getRevertReason(error)}`)
+    }
+}
+
+/**
+ * Returns a readable revert reason, decoding LAT custom errors, `Error(string)` and `Panic(uint256)`
+ *
+ * @param error
+ * @returns
+ */
+export function getRevertReason(error: unknown): string {
+    const revertData = getRevertData(error)
+
+    if (revertData && revertData !== '0x') {
+        try {
+            const { errorName, args } = decodeErrorResult({ abi: LAT_ERRORS, data: revertData })
+            return `${errorName}(${formatArgs(args ?? []).slice(1, -1)})`
+        } catch {
+            return `unknown error ${revertData.slice(0, 10)}`
+        }
+    }
+
+    return error instanceof BaseError ? error.shortMessage : String(error)
+}
+
+/**
+ * Returns whether an error is a contract revert, as opposed to a failure to reach the node
+ *
+ * @param error
+ * @returns
+ */
+export function isRevert(error: unknown): boolean {
+    return error instanceof BaseError && error.walk((e) => e instanceof ContractFunctionRevertedError) !== null
+}
+
+// --- Helper functions ---
+
+function getRevertData(error: unknown): Hex | undefined {
+    if (!(error instanceof BaseError)) return undefined
+
+    const withData = error.walk((e) => isHex((e as { data?: unknown }).data))
+    return (withData as { data?: Hex } | null)?.data
+}
@@ -0,0 +1,328 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { type Address, type Hex, zeroAddress } from 'viem'
+import { concatHex, decodeAbiParameters, encodeAbiParameters, getAddress, isAddress, isHex, parseAbi } from 'viem/utils'
+import type { Deployment } from './deployment'
+import { NETWORK } from './forge'
+import { getViemClient } from './viemClient'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+export interface TokenOracleConfig {
+    sourceType: number // 1=Chainlink, 2=Curve, 3=Protocol
+    primarySource: Address
+    needsArg: number // Whether the protocol rate function takes 1e18 as its argument (0/1)
+    fallbackSource: Address
+    fallbackSelector: Hex // Protocol rate function, called on the fallback source and, for protocol sources, the primary
+}
+
+export interface LatTokenConfig {
+    name: string
+    token: Address
+    strategy: Address
+    decimals: number
+    volatilityThreshold: string // Allowed price change ratio, in 1e18
+    oracle: TokenOracleConfig
+}
+
+export interface TokenCheck {
+    name: 'decimals' | 'underlyingToken' | 'strategyWhitelisted' | 'primaryPrice' | 'fallbackPrice' | 'priceDeviation'
+    passed: boolean
+    detail: string
+}
+
+export const SOURCE_TYPE_CHAINLINK = 1
+export const SOURCE_TYPE_CURVE = 2
+export const SOURCE_TYPE_PROTOCOL = 3
+
+const WAD = 10n ** 18n
+
+const TOKEN_ABI = parseAbi(['function decimals() view returns (uint8)'])
+
+const STRATEGY_ABI = parseAbi(['function underlyingToken() view returns (address)'])
+
+const EIGENLAYER_ABI = parseAbi([
+    'function strategyManager() view returns (address)',
+    'function strategyIsWhitelistedForDeposit(address strategy) view returns (bool)'
+])
+
+const CHAINLINK_ABI = parseAbi([
+    'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+    'function decimals() view returns (uint8)'
+])
+
+const CURVE_ABI = parseAbi([
+    'function get_virtual_price() view returns (uint256)',
+    'function price_oracle() view returns (uint256)',
+    'function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)'
+])
+
+/**
+ * Reads the tokens of a LAT config file from `script/configs/<network>`
+ *
+ * @param configFile
+ * @returns
+ */
+export async function loadLatTokenConfigs(configFile: string): Promise<LatTokenConfig[]> {
+    const filePath = path.join(__dirname, '../../../script/configs', NETWORK, configFile)
+
+    let data: unknown
+    try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+        throw new Error(`Failed to read LAT config ${configFile}: ${error.message}`)
+    }
+
+    return parseLatTokenConfigs(data, configFile)
+}
+
+/**
+ * Validates the `tokens` of a LAT config file and returns them with checksummed addresses
+ * Throws an error naming the first missing or malformed field
+ *
+ * @param data
+ * @param configFile
+ * @returns
+ */
+export function parseLatTokenConfigs(data: unknown, configFile: string): LatTokenConfig[] {
+    const tokens = (data as { tokens?: unknown })?.tokens
+    if (!Array.isArray(tokens)) throw invalidField('tokens', 'is not a list', configFile)
+
+    return tokens.map((token, index) => {
+        const fieldPath = `tokens.${index}`
+        const address = (field: string) => toAddress(readField(token, field), `${fieldPath}.${field}`, configFile)
+        const uint = (field: string, max: number) => {
+            const value = readField(token, field)
+            if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > max) {
+                throw invalidField(`${fieldPath}.${field}`, `is not an integer up to ${max}: ${value}`, configFile)
+            }
+            return value as number
+        }
+
+        const volatilityThreshold = readField(token, 'params.volatilityThreshold')
+        if (typeof volatilityThreshold !== 'string' || !/^\d+$/.test(volatilityThreshold)) {
+            throw invalidField(`${fieldPath}.params.volatilityThreshold`, 'is not an integer string', configFile)
+        }
+
+        const fallbackSelector = readField(token, 'oracle.fallbackSelector')
+        if (!isHex(fallbackSelector) || fallbackSelector.length !== 10) {
+            throw invalidField(`${fieldPath}.oracle.fallbackSelector`, 'is not a bytes4 selector', configFile)
+        }
+
+        return {
+            name: String(readField(token, 'name') ?? fieldPath),
+            token: address('addresses.token'),
+            strategy: address('addresses.strategy'),
+            decimals: uint('params.decimals', 255),
+            volatilityThreshold,
+            oracle: {
+                sourceType: uint('oracle.sourceType', SOURCE_TYPE_PROTOCOL),
+                primarySource: address('oracle.primarySource'),
+                needsArg: uint('oracle.needsArg', 1),
+                fallbackSource: address('oracle.fallbackSource'),
+                fallbackSelector
+            }
+        }
+    })
+}
+
+/**
+ * Checks a token before proposing `addToken` for it
+ * The token's decimals must match the config, the strategy must hold the token and be whitelisted in
+ * EigenLayer's `StrategyManager`, and the price sources must pass `checkPrices`
+ *
+ * @param deployment
+ * @param config
+ * @returns
+ */
+export async function checkTokenOnboarding(deployment: Deployment, config: LatTokenConfig): Promise<TokenCheck[]> {
+    const viemClient = getViemClient()
+
+    const strategyManager = await viemClient.readContract({
+        address: deployment.liquidTokenManager,
+        abi: EIGENLAYER_ABI,
+        functionName: 'strategyManager'
+    })
+
+    const [decimals, underlyingToken, whitelisted, primaryPrice, fallbackPrice] = await Promise.all([
+        viemClient.readContract({ address: config.token, abi: TOKEN_ABI, functionName: 'decimals' }).catch(() => null),
+        viemClient
+            .readContract({ address: config.strategy, abi: STRATEGY_ABI, functionName: 'underlyingToken' })
+            .catch(() => null),
+        viemClient.readContract({
+            address: strategyManager,
+            abi: EIGENLAYER_ABI,
+            functionName: 'strategyIsWhitelistedForDeposit',
+            args: [config.strategy]
+        }),
+        readPrimaryPrice(config.oracle),
+        hasFallback(config.oracle)
+            ? readProtocolPrice(config.oracle.fallbackSource, config.oracle.fallbackSelector, config.oracle.needsArg)
+            : undefined
+    ])
+
+    return [
+        {
+            name: 'decimals',
+            passed: decimals === config.decimals,
+            detail: `decimals() returned ${decimals ?? 'nothing'}, config has ${config.decimals}`
+        },
+        {
+            name: 'underlyingToken',
+            passed: underlyingToken?.toLowerCase() === config.token.toLowerCase(),
+            detail: `Strategy ${config.strategy} holds ${underlyingToken ?? 'nothing'}`
+        },
+        {
+            name: 'strategyWhitelisted',
+            passed: whitelisted,
+            detail: `Strategy ${config.strategy} is ${whitelisted ? '' : 'not '}whitelisted in StrategyManager`
+        },
+        ...checkPrices(primaryPrice, fallbackPrice, BigInt(config.volatilityThreshold))
+    ]
+}
+
+/**
+ * Checks the prices returned by a token's price sources, in unit of account (1e18)
+ * The primary price must be positive, and so must the fallback price if the token has a fallback source.
+ * With both prices available, they must not deviate from each other by more than the volatility threshold
+ *
+ * @param primaryPrice Null if the primary source failed
+ * @param fallbackPrice Null if the fallback source failed, undefined if the token has none
+ * @param volatilityThreshold
+ * @returns
+ */
+export function checkPrices(
+    primaryPrice: bigint | null,
+    fallbackPrice: bigint | null | undefined,
+    volatilityThreshold: bigint
+): TokenCheck[] {
+    const checks: TokenCheck[] = [
+        {
+            name: 'primaryPrice',
+            passed: primaryPrice !== null && primaryPrice > 0n,
+            detail: `Primary source returned ${primaryPrice ?? 'nothing'}`
+        }
+    ]
+
+    if (fallbackPrice === undefined) return checks
+
+    checks.push({
+        name: 'fallbackPrice',
+        passed: fallbackPrice !== null && fallbackPrice > 0n,
+        detail: `Fallback source returned ${fallbackPrice ?? 'nothing'}`
+    })
+
+    if (primaryPrice && fallbackPrice && volatilityThreshold > 0n) {
+        const difference = primaryPrice > fallbackPrice ? primaryPrice - fallbackPrice : fallbackPrice - primaryPrice
+        const deviation = (difference * WAD) / fallbackPrice
+
+        checks.push({
+            name: 'priceDeviation',
+            passed: deviation <= volatilityThreshold,
+            detail: `Primary and fallback prices deviate by ${deviation}, threshold is ${volatilityThreshold}`
+        })
+    }
+
+    return checks
+}
+
+// --- Helper functions ---
+
+/**
+ * Reads a token's price from its primary source the way `TokenRegistryOracle` does, null if it fails
+ *
+ * @param oracle
+ * @returns
+ */
+async function readPrimaryPrice(oracle: TokenOracleConfig): Promise<bigint | null> {
+    switch (oracle.sourceType) {
+        case SOURCE_TYPE_CHAINLINK:
+            return readChainlinkPrice(oracle.primarySource)
+        case SOURCE_TYPE_CURVE:
+            return readCurvePrice(oracle.primarySource)
+        case SOURCE_TYPE_PROTOCOL:
+            return readProtocolPrice(oracle.primarySource, oracle.fallbackSelector, oracle.needsArg)
+        default:
+            return null
+    }
+}
+
+async function readChainlinkPrice(feed: Address): Promise<bigint | null> {
+    const viemClient = getViemClient()
+
+    try {
+        const [roundId, answer, , updatedAt, answeredInRound] = await viemClient.readContract({
+            address: feed,
+            abi: CHAINLINK_ABI,
+            functionName: 'latestRoundData'
+        })
+        if (answer <= 0n || updatedAt === 0n || answeredInRound < roundId) return null
+
+        const decimals = await viemClient
+            .readContract({ address: feed, abi: CHAINLINK_ABI, functionName: 'decimals' })
+            .catch(() => 8)
+
+        return decimals <= 18 ? answer * 10n ** BigInt(18 - decimals) : answer / 10n ** BigInt(decimals - 18)
+    } catch {
+        return null
+    }
+}
+
+async function readCurvePrice(pool: Address): Promise<bigint | null> {
+    const viemClient = getViemClient()
+    const reads = [
+        () => viemClient.readContract({ address: pool, abi: CURVE_ABI, functionName: 'get_virtual_price' }),
+        () => viemClient.readContract({ address: pool, abi: CURVE_ABI, functionName: 'price_oracle' }),
+        () => viemClient.readContract({ address: pool, abi: CURVE_ABI, functionName: 'get_dy', args: [0n, 1n, WAD] })
+    ]
+
+    for (const read of reads) {
+        const price = await read().catch(() => 0n)
+        if (price > 0n) return price
+    }
+
+    return null
+}
+
+async function readProtocolPrice(source: Address, selector: Hex, needsArg: number): Promise<bigint | null> {
+    if (source === zeroAddress || Number(selector) === 0) return null
+
+    const data = needsArg ? concatHex([selector, encodeAbiParameters([{ type: 'uint256' }], [WAD])]) : selector
+
+    try {
+        const result = await getViemClient().call({ to: source, data })
+        if (!result.data || result.data === '0x') return null
+
+        return decodeAbiParameters([{ type: 'uint256' }], result.data)[0]
+    } catch {
+        return null
+    }
+}
+
+function hasFallback(oracle: TokenOracleConfig): boolean {
+    return oracle.fallbackSource !== zeroAddress && Number(oracle.fallbackSelector) !== 0
+}
+
+function readField(data: unknown, fieldPath: string): unknown {
+    let value: unknown = data
+
+    for (const key of fieldPath.split('.')) {
+        value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+    }
+
+    return value
+}
+
+function toAddress(value: unknown, fieldPath: string, configFile: string): Address {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+        throw invalidField(fieldPath, `is not an address: ${JSON.stringify(value)}`, configFile)
+    }
+
+    return getAddress(value)
+}
+
+function invalidField(fieldPath: string, reason: string, configFile: string): Error {
+    return new Error(`Invalid LAT config ${configFile}: ${fieldPath} ${reason}`)
+}
@@ -0,0 +1,202 @@
+import type { Hex } from 'viem'
+import { getAddress, parseAbi } from 'viem/utils'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+import type { Deployment } from './deployment'
+import { decodeSafeCalls } from './decode'
+import type { LedgerEntry } from './ledger'
+import { getViemClient } from './viemClient'
+
+export interface StakeCheck {
+    nodeId: string | null // Null for the `LiquidToken` balance of the asset
+    asset: string
+    expected: string // Planned change of the balance
+    actual: string
+    shortfall: string // Expected minus actual, if positive
+}
+
+export interface StakeVerification {
+    verifiedAt: string
+    blockNumber: string // Block the proposal executed in
+    passed: boolean
+    calldataMatchesPlan: boolean
+    checks: StakeCheck[]
+}
+
+export interface StakeDeltas {
+    nodes: Map<string, bigint> // `${nodeId}:${asset}` => increase of the node's balance
+    liquidToken: Map<string, bigint> // Asset => decrease of the `LiquidToken` balance
+}
+
+const LIQUID_TOKEN_ABI = parseAbi(['function balanceAssets(address[] assetList) view returns (uint256[])'])
+
+const LIQUID_TOKEN_MANAGER_ABI = parseAbi([
+    'function getDepositAssetBalanceNode(address asset, uint256 nodeId) view returns (uint256)'
+])
+
+/**
+ * Verifies an executed staking proposal against the plan it was proposed with
+ * Reads every planned node balance and the `LiquidToken` balances right before and after the execution block,
+ * and checks that each changed by at least the planned amount. Also checks the executed calldata against the plan
+ *
+ * @param deployment
+ * @param entry
+ * @param executionBlock
+ * @returns
+ */
+export async function verifyStakingProposal(
+    deployment: Deployment,
+    entry: LedgerEntry & { plan: NodeAllocation[] },
+    executionBlock: bigint
+): Promise<StakeVerification> {
+    const viemClient = getViemClient()
+    const planned = sumAllocations(entry.plan)
+    const assets = [...new Set([...planned.keys()].map((key) => key.split(':')[1]))]
+
+    const readBalances = async (blockNumber: bigint) => {
+        const [nodeBalances, liquidTokenBalances] = await Promise.all([
+            Promise.all(
+                [...planned.keys()].map((key) => {
+                    const [nodeId, asset] = key.split(':')
+                    return viemClient.readContract({
+                        address: deployment.liquidTokenManager,
+                        abi: LIQUID_TOKEN_MANAGER_ABI,
+                        functionName: 'getDepositAssetBalanceNode',
+                        args: [getAddress(asset), BigInt(nodeId)],
+                        blockNumber
+                    })
+                })
+            ),
+            viemClient.readContract({
+                address: deployment.liquidToken,
+                abi: LIQUID_TOKEN_ABI,
+                functionName: 'balanceAssets',
+                args: [assets.map((asset) => getAddress(asset))],
+                blockNumber
+            })
+        ])
+
+        return {
+            nodes: new Map([...planned.keys()].map((key, index) => [key, nodeBalances[index]])),
+            liquidToken: new Map(assets.map((asset, index) => [asset, liquidTokenBalances[index]]))
+        }
+    }
+
+    const [before, after] = await Promise.all([readBalances(executionBlock - 1n), readBalances(executionBlock)])
+
+    const actual: StakeDeltas = {
+        nodes: new Map([...after.nodes].map(([key, balance]) => [key, balance - (before.nodes.get(key) ?? 0n)])),
+        liquidToken: new Map(
+            [...before.liquidToken].map(([asset, balance]) => [asset, balance - (after.liquidToken.get(asset) ?? 0n)])
+        )
+    }
+
+    return {
+        verifiedAt: new Date().toISOString(),
+        blockNumber: executionBlock.toString(),
+        ...checkStakeDeltas(entry.plan, getExecutedAllocations(entry.transaction), actual)
+    }
+}
+
+/**
+ * Compares the balance changes of an executed staking proposal with its plan
+ * Every node balance must grow, and every `LiquidToken` balance must shrink, by the planned amount
+ *
+ * @param plan
+ * @param executed
+ * @param actual
+ * @returns
+ */
+export function checkStakeDeltas(
+    plan: NodeAllocation[],
+    executed: NodeAllocation[],
+    actual: StakeDeltas
+): Pick<StakeVerification, 'passed' | 'calldataMatchesPlan' | 'checks'> {
+    const planned = sumAllocations(plan)
+    const executedAmounts = sumAllocations(executed)
+
+    const calldataMatchesPlan =
+        planned.size === executedAmounts.size &&
+        [...planned].every(([key, amount]) => executedAmounts.get(key) === amount)
+
+    const plannedByAsset = new Map<string, bigint>()
+    for (const [key, amount] of planned) {
+        const asset = key.split(':')[1]
+        plannedByAsset.set(asset, (plannedByAsset.get(asset) ?? 0n) + amount)
+    }
+
+    const checks: StakeCheck[] = [
+        ...[...planned].map(([key, expected]) => {
+            const [nodeId, asset] = key.split(':')
+            return toCheck(nodeId, asset, expected, actual.nodes.get(key) ?? 0n)
+        }),
+        ...[...plannedByAsset].map(([asset, expected]) =>
+            toCheck(null, asset, expected, actual.liquidToken.get(asset) ?? 0n)
+        )
+    ]
+
+    return {
+        passed: calldataMatchesPlan && checks.every((check) => check.shortfall === '0'),
+        calldataMatchesPlan,
+        checks
+    }
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the allocations staked by the `stakeAssetsToNodes` and `stakeAssetsToNode` calls of a Safe transaction
+ *
+ * @param transaction
+ * @returns
+ */
+function getExecutedAllocations(transaction: LedgerEntry['transaction']): NodeAllocation[] {
+    return decodeSafeCalls({ ...transaction, data: transaction.data as Hex }).flatMap((call): NodeAllocation[] => {
+        switch (call.functionName) {
+            case 'stakeAssetsToNodes':
+                return (call.args?.[0] as { nodeId: bigint; assets: string[]; amounts: bigint[] }[]).map(
+                    ({ nodeId, assets, amounts }) => ({
+                        nodeId: nodeId.toString(),
+                        assets: [...assets],
+                        amounts: amounts.map(String)
+                    })
+                )
+            case 'stakeAssetsToNode': {
+                const [nodeId, assets, amounts] = call.args as [bigint, string[], bigint[]]
+                return [{ nodeId: nodeId.toString(), assets: [...assets], amounts: amounts.map(String) }]
+            }
+            default:
+                return []
+        }
+    })
+}
+
+/**
+ * Sums allocations by node and asset, keyed by `${nodeId}:${asset}` with lowercase assets
+ *
+ * @param allocations
+ * @returns
+ */
+function sumAllocations(allocations: NodeAllocation[]): Map<string, bigint> {
+    const amounts = new Map<string, bigint>()
+
+    for (const { nodeId, assets, amounts: nodeAmounts } of allocations) {
+        assets.forEach((asset, index) => {
+            const key = `${nodeId}:${asset.toLowerCase()}`
+            amounts.set(key, (amounts.get(key) ?? 0n) + BigInt(nodeAmounts[index]))
+        })
+    }
+
+    return amounts
+}
+
+function toCheck(nodeId: string | null, asset: string, expected: bigint, actual: bigint): StakeCheck {
+    const shortfall = expected > actual ? expected - actual : 0n
+
+    return {
+        nodeId,
+        asset,
+        expected: expected.toString(),
+        actual: actual.toString(),
+        shortfall: shortfall.toString()
+    }
+}
@@ -1,11 +1,4 @@
-import {
-    type PrivateKeyAccount,
-    type PublicClient,
-    type WalletClient,
-    createPublicClient,
-    createWalletClient,
-    http
-} from 'viem'
+import { type Account, type PublicClient, type WalletClient, createPublicClient, createWalletClient, http } from 'viem'
 import { type Chain, holesky, mainnet } from 'viem/chains'
 
 let publicViemClient: PublicClient
@@ -58,7 +51,7 @@ export function getViemClient(n?: Chain) {
  * @param privateKeyEnvVar
  * @returns
  */
-export function getWalletClient(account: PrivateKeyAccount, n?: Chain) {
+export function getWalletClient(account: Account, n?: Chain) {
     if (n) {
         network = n
     }
@@ -0,0 +1,49 @@
+import { getOutputFile } from '../utils/forge'
+import { loadDeployment } from '../utils/deployment'
+import { forEachLat, isMultiLat, loadLatDeployment } from '../utils/registry'
+import { monitorLat } from './monitorLat'
+import { monitorOperators } from './monitorOperators'
+import { provisionNodes } from './provisionNodes'
+import { reconcileProposals } from './reconcileProposals'
+import { refreshDeployment } from './refreshDeployment'
+import { stakeUnstakedAssets } from './stakeUnstakedAssets'
+import { updatePrices } from './updatePrices'
+import { verifyStakes } from './verifyStakes'
+
+/**
+ * All workflows the manager can schedule, keyed by the name used in `scheduler.workflows` config
+ * Entries run in this order when the manager runs once
+ * The deployment data is loaded on every run, so workflows pick up the latest `refreshDeployment`
+ * In multi-LAT mode, every workflow runs once per LAT in the registry
+ */
+export const WORKFLOWS: Record<string, () => Promise<unknown>> = isMultiLat()
+    ? {
+          refreshDeployment: () =>
+              forEachLat('refreshDeployment', async (lat) => {
+                  if (lat.deployment.repo) await refreshDeployment(lat.deployment)
+                  await loadLatDeployment(lat)
+              }),
+          reconcileProposals: () =>
+              forEachLat('reconcileProposals', async (lat) => reconcileProposals(await loadLatDeployment(lat))),
+          provisionNodes: () =>
+              forEachLat('provisionNodes', async (lat) => provisionNodes(await loadLatDeployment(lat), lat.operators)),
+          updatePrices: () => forEachLat('updatePrices', async (lat) => updatePrices(await loadLatDeployment(lat))),
+          stakeUnstakedAssets: () =>
+              forEachLat('stakeUnstakedAssets', async (lat) =>
+                  stakeUnstakedAssets(await loadLatDeployment(lat), lat.allocation, lat.dataSource, lat.reserve)
+              ),
+          monitorOperators: () =>
+              forEachLat('monitorOperators', async (lat) => monitorOperators(await loadLatDeployment(lat))),
+          monitorLat: () => forEachLat('monitorLat', async (lat) => monitorLat(await loadLatDeployment(lat))),
+          verifyStakes: () => forEachLat('verifyStakes', async (lat) => verifyStakes(await loadLatDeployment(lat)))
+      }
+    : {
+          refreshDeployment,
+          reconcileProposals: async () => reconcileProposals(await loadDeployment(getOutputFile())),
+          provisionNodes: async () => provisionNodes(await loadDeployment(getOutputFile())),
+          updatePrices: async () => updatePrices(await loadDeployment(getOutputFile())),
+          stakeUnstakedAssets: async () => stakeUnstakedAssets(await loadDeployment(getOutputFile())),
+          monitorOperators: async () => monitorOperators(await loadDeployment(getOutputFile())),
+          monitorLat: async () => monitorLat(await loadDeployment(getOutputFile())),
+          verifyStakes: async () => verifyStakes(await loadDeployment(getOutputFile()))
+      }
@@ -0,0 +1,125 @@
+import { parseAbi } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { getConfig } from '../utils/config'
+import { inspectPendingProposals } from '../utils/proposals'
+import { getViemClient } from '../utils/viemClient'
+import { sendAlert } from '../utils/alerts'
+import { createLogger } from '../utils/logger'
+import { step } from '../utils/run'
+
+const LIQUID_TOKEN_ABI = parseAbi(['function paused() view returns (bool)'])
+
+const ORACLE_ABI = parseAbi([
+    'function arePricesStale() view returns (bool)',
+    'function lastPriceUpdate() view returns (uint256)'
+])
+
+// LiquidToken address => paused state seen on the last run
+const pausedStates = new Map<string, boolean>()
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for alerting on the state of a LAT
+ * Alerts when oracle prices are stale, when the `LiquidToken` is paused or unpaused, and when a proposal
+ * is left without enough confirmations for longer than `alerts.unsignedProposalHours`
+ * A `LiquidToken` that is already paused when the manager starts is alerted as paused
+ *
+ * @param deployment
+ * @returns
+ */
+export async function monitorLat(deployment: Deployment) {
+    try {
+        const viemClient = getViemClient()
+        const { unsignedProposalHours } = getConfig().alerts
+
+        const blockNumber = await viemClient.getBlockNumber()
+        const [paused, stale, lastPriceUpdate] = await step('Fetch LAT state', () =>
+            Promise.all([
+                viemClient.readContract({
+                    address: deployment.liquidToken,
+                    abi: LIQUID_TOKEN_ABI,
+                    functionName: 'paused',
+                    blockNumber
+                }),
+                viemClient.readContract({
+                    address: deployment.tokenRegistryOracle,
+                    abi: ORACLE_ABI,
+                    functionName: 'arePricesStale',
+                    blockNumber
+                }),
+                viemClient.readContract({
+                    address: deployment.tokenRegistryOracle,
+                    abi: ORACLE_ABI,
+                    functionName: 'lastPriceUpdate',
+                    blockNumber
+                })
+            ])
+        )
+
+        const wasPaused = pausedStates.get(deployment.liquidToken)
+        pausedStates.set(deployment.liquidToken, paused)
+
+        if (paused && wasPaused !== true) {
+            log.warn(`LiquidToken ${deployment.liquidToken} is paused`)
+            await sendAlert({
+                type: 'paused',
+                key: `${deployment.liquidToken}:${blockNumber}`, // Every transition is alerted, even within `dedupWindow`
+                severity: 'critical',
+                title: 'LiquidToken paused',
+                message: `LiquidToken ${deployment.liquidToken} is paused`
+            })
+        } else if (!paused && wasPaused === true) {
+            log.info(`LiquidToken ${deployment.liquidToken} is unpaused`)
+            await sendAlert({
+                type: 'unpaused',
+                key: `${deployment.liquidToken}:${blockNumber}`,
+                severity: 'info',
+                title: 'LiquidToken unpaused',
+                message: `LiquidToken ${deployment.liquidToken} is unpaused`
+            })
+        }
+
+        if (stale) {
+            const lastUpdated = new Date(Number(lastPriceUpdate) * 1000).toISOString()
+
+            log.warn(`Prices of ${deployment.liquidToken} are stale, last updated at ${lastUpdated}`)
+            await sendAlert({
+                type: 'pricesStale',
+                key: deployment.tokenRegistryOracle,
+                severity: 'warning',
+                title: 'Oracle prices stale',
+                message: `Prices of LiquidToken ${deployment.liquidToken} are stale, last updated at ${lastUpdated}`
+            })
+        }
+
+        const queues = await step('Check pending proposals', () =>
+            Promise.all([inspectPendingProposals(deployment, 'admin'), inspectPendingProposals(deployment, 'pauser')])
+        )
+        const unsigned = queues
+            .flatMap((queue) => queue.proposals)
+            .filter(
+                (proposal) =>
+                    proposal.confirmations < proposal.threshold && proposal.age > unsignedProposalHours * 60 * 60
+            )
+
+        for (const proposal of unsigned) {
+            const hours = Math.floor(proposal.age / (60 * 60))
+
+            await sendAlert({
+                type: 'proposalUnsigned',
+                key: proposal.safeTxHash,
+                severity: 'warning',
+                title: 'Proposal awaiting signatures',
+                message: `${proposal.multisig} multisig #${proposal.nonce} ${proposal.title ?? '(no title)'} has ${proposal.confirmations}/${proposal.threshold} confirmations after ${hours}h (safeTxHash ${proposal.safeTxHash})`
+            })
+        }
+
+        log.info(
+            `Paused: ${paused}, prices stale: ${stale}, ${unsigned.length} proposals unsigned for over ${unsignedProposalHours}h`
+        )
+    } catch (error) {
+        log.error('Monitor LAT failed', error)
+        throw error
+    }
+}
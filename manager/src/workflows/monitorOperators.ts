@@ -0,0 +1,199 @@
+import type { Address } from 'viem'
+import { getAddress, parseAbi } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { getConfig } from '../utils/config'
+import { findConflictingProposals, inspectPendingProposals } from '../utils/proposals'
+import { getNodeBalances, getStakerNodes } from '../utils/nodes'
+import { createOnChainDataSource } from '../utils/dataSource'
+import { EIGENLAYER_ABI, getAllocationManager, getOperatorStrategies } from '../utils/operatorStrategies'
+import { getViemClient } from '../utils/viemClient'
+import { undelegateNodes } from '../tasks/undelegateNodes'
+import { type OperatorHealth, checkOperatorHealth, describeIssue } from '../policies/operatorHealth'
+import { createLogger } from '../utils/logger'
+import { recordOperatorHealth, step } from '../utils/run'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for checking the operator of every delegated node
+ * An operator is unhealthy if it stopped restaking a strategy its nodes hold, deregistered from the LAT's
+ * AVS or was slashed on any of the LAT's strategies. Results are recorded in the run report
+ * Operator strategies, AVS registrations and magnitudes are read on-chain from EigenLayer, for the tokens the
+ * `LiquidTokenManager` supports at the time of the run
+ * Proposes `undelegateNodes` for the nodes of unhealthy operators if `proposeUndelegation` is set, which
+ * defaults to `operatorHealth.proposeUndelegation` in config
+ *
+ * @param deployment
+ * @param proposeUndelegation
+ * @returns
+ */
+export async function monitorOperators(
+    deployment: Deployment,
+    proposeUndelegation = getConfig().operatorHealth.proposeUndelegation
+): Promise<OperatorHealth[]> {
+    try {
+        const { nodes } = await step('Fetch staker nodes', () => getStakerNodes(deployment))
+        const delegatedNodes = nodes.filter((node) => node.operatorDelegation !== ZERO_ADDRESS)
+
+        if (delegatedNodes.length === 0) {
+            log.info('No delegated nodes found. Skipping workflow...')
+            return []
+        }
+
+        // Strategies each node holds a balance in, for the tokens the LAT supports now
+        const tokens = await step('Fetch tokens', () => createOnChainDataSource(deployment).getTokens())
+        const strategies = new Map(tokens.map((token) => [token.address.toLowerCase(), token.strategyAddress]))
+        const nodeBalances = await step('Fetch node balances', () =>
+            getNodeBalances(
+                deployment,
+                delegatedNodes.map((node) => node.nodeId),
+                tokens.map((token) => token.address)
+            )
+        )
+
+        const operators = [...new Set(delegatedNodes.map((node) => getAddress(node.operatorDelegation)))]
+        const strategyAddresses = tokens.map((token) => getAddress(token.strategyAddress))
+        const [restakedStrategies, registeredAvs, maxMagnitudes] = await Promise.all([
+            step('Fetch operator strategies', () => getOperatorStrategies(deployment, operators, strategyAddresses)),
+            step('Fetch operator registrations', () => getRegisteredAvs(deployment, operators)),
+            step('Fetch operator magnitudes', () => getMaxMagnitudes(deployment, operators, strategyAddresses))
+        ])
+
+        const health = operators.map((operator, index) => {
+            const operatorNodes = delegatedNodes.filter((node) => getAddress(node.operatorDelegation) === operator)
+            const heldStrategies = new Set<string>()
+
+            for (const node of operatorNodes) {
+                for (const [asset, balance] of nodeBalances.get(node.nodeId) ?? []) {
+                    const strategy = strategies.get(asset)
+                    if (balance > 0n && strategy) heldStrategies.add(strategy)
+                }
+            }
+
+            return checkOperatorHealth({
+                operator,
+                nodeIds: operatorNodes.map((node) => node.nodeId),
+                heldStrategies: [...heldStrategies],
+                restakedStrategies: restakedStrategies.get(operator.toLowerCase()) ?? [],
+                avs: deployment.avs,
+                registeredAvs: registeredAvs[index],
+                maxMagnitudes: maxMagnitudes.get(operator) ?? new Map()
+            })
+        })
+        recordOperatorHealth(health)
+
+        const unhealthy = health.filter((operator) => !operator.healthy)
+
+        for (const { operator, nodeIds, issues } of unhealthy) {
+            const message = `Operator ${operator} (nodes ${nodeIds.join(', ')}) is unhealthy: ${issues.map(describeIssue).join('; ')}`
+            log.warn(message)
+        }
+
+        log.info(`${operators.length - unhealthy.length} of ${operators.length} operators healthy`)
+
+        if (unhealthy.length > 0 && proposeUndelegation) {
+            await step('Propose undelegations', () => proposeUndelegations(deployment, unhealthy))
+        }
+
+        log.info('Monitor operators complete')
+
+        return health
+    } catch (error) {
+        log.error('Monitor operators failed', error)
+        throw error
+    }
+}
+
+// --- Helper functions ---
+
+/**
+ * Proposes `undelegateNodes` for the nodes of unhealthy operators, skipping nodes with a pending undelegation
+ *
+ * @param deployment
+ * @param unhealthy
+ */
+async function proposeUndelegations(deployment: Deployment, unhealthy: OperatorHealth[]) {
+    const queue = await inspectPendingProposals(deployment, 'admin')
+    const pendingNodeIds = new Set(
+        findConflictingProposals(deployment, [queue], ['undelegateNodes'])
+            .flatMap((proposal) => proposal.calls)
+            .filter((call) => call.functionName === 'undelegateNodes')
+            .flatMap((call) => (call.args?.[0] as bigint[]).map(Number))
+    )
+
+    const nodeIds = unhealthy.flatMap((operator) => operator.nodeIds).filter((nodeId) => !pendingNodeIds.has(nodeId))
+
+    if (nodeIds.length === 0) {
+        log.info('Undelegation of every unhealthy node is already pending')
+        return
+    }
+
+    await undelegateNodes(
+        deployment,
+        nodeIds.map((nodeId) => nodeId.toString())
+    )
+}
+
+/**
+ * Returns the AVSs each operator is registered to, read from EigenLayer's `AllocationManager`
+ *
+ * @param deployment
+ * @param operators
+ * @returns
+ */
+async function getRegisteredAvs(deployment: Deployment, operators: Address[]): Promise<string[][]> {
+    const viemClient = getViemClient()
+    const allocationManager = await getAllocationManager(deployment)
+
+    const registeredSets = await viemClient.multicall({
+        contracts: operators.map(
+            (operator) =>
+                ({
+                    address: allocationManager,
+                    abi: EIGENLAYER_ABI,
+                    functionName: 'getRegisteredSets',
+                    args: [operator]
+                }) as const
+        ),
+        allowFailure: false
+    })
+
+    return registeredSets.map((sets) => [...new Set(sets.map((set) => set.avs.toLowerCase()))])
+}
+
+/**
+ * Returns each operator's max magnitude for each strategy, read from EigenLayer's `AllocationManager`
+ *
+ * @param deployment
+ * @param operators
+ * @param strategies
+ * @returns
+ */
+async function getMaxMagnitudes(
+    deployment: Deployment,
+    operators: Address[],
+    strategies: Address[]
+): Promise<Map<Address, Map<string, bigint>>> {
+    const viemClient = getViemClient()
+    const allocationManager = await getAllocationManager(deployment)
+
+    const magnitudes = await Promise.all(
+        operators.map((operator) =>
+            viemClient.readContract({
+                address: allocationManager,
+                abi: EIGENLAYER_ABI,
+                functionName: 'getMaxMagnitudes',
+                args: [operator, strategies]
+            })
+        )
+    )
+
+    return new Map(
+        operators.map((operator, index) => [
+            operator,
+            new Map(strategies.map((strategy, i) => [strategy.toLowerCase(), magnitudes[index][i]]))
+        ])
+    )
+}
@@ -0,0 +1,94 @@
+import { parseAbi } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { type TokenCheck, checkTokenOnboarding, loadLatTokenConfigs } from '../utils/tokenOnboarding'
+import { getViemClient } from '../utils/viemClient'
+import { addToken } from '../tasks/system/addToken'
+import { createLogger } from '../utils/logger'
+import { step } from '../utils/run'
+
+export interface TokenOnboarding {
+    name: string
+    token: string
+    proposed: boolean
+    checks: TokenCheck[]
+}
+
+const LIQUID_TOKEN_MANAGER_ABI = parseAbi(['function tokenIsSupported(address token) view returns (bool)'])
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for onboarding the tokens of a LAT config file in `script/configs/<network>`
+ * Proposes `addToken` with the config's params and oracle sources for every token the `LiquidTokenManager`
+ * does not support yet, if all checks of `checkTokenOnboarding` pass. Failed checks are recorded in the run report
+ *
+ * @param deployment
+ * @param configFile
+ * @returns
+ */
+export async function onboardTokens(deployment: Deployment, configFile: string): Promise<TokenOnboarding[]> {
+    try {
+        const viemClient = getViemClient()
+
+        const configs = await step('Read LAT config', () => loadLatTokenConfigs(configFile))
+        const supported = await step('Check supported tokens', () =>
+            viemClient.multicall({
+                contracts: configs.map(
+                    (config) =>
+                        ({
+                            address: deployment.liquidTokenManager,
+                            abi: LIQUID_TOKEN_MANAGER_ABI,
+                            functionName: 'tokenIsSupported',
+                            args: [config.token]
+                        }) as const
+                ),
+                allowFailure: false
+            })
+        )
+        const unsupported = configs.filter((_, index) => !supported[index])
+
+        if (unsupported.length === 0) {
+            log.info(`Every token of ${configFile} is supported already. Skipping workflow...`)
+            return []
+        }
+
+        const results: TokenOnboarding[] = []
+
+        for (const config of unsupported) {
+            const checks = await step(`Check ${config.name}`, () => checkTokenOnboarding(deployment, config))
+            const failed = checks.filter((check) => !check.passed)
+
+            if (failed.length > 0) {
+                log.warn(
+                    `Not onboarding ${config.name} (${config.token}): ${failed.map((check) => check.detail).join('; ')}`
+                )
+                results.push({ name: config.name, token: config.token, proposed: false, checks })
+                continue
+            }
+
+            await step(`Propose addToken for ${config.name}`, () =>
+                addToken(
+                    deployment,
+                    config.token,
+                    config.decimals,
+                    config.volatilityThreshold,
+                    config.strategy,
+                    config.oracle.sourceType,
+                    config.oracle.primarySource,
+                    config.oracle.needsArg,
+                    config.oracle.fallbackSource,
+                    config.oracle.fallbackSelector
+                )
+            )
+            results.push({ name: config.name, token: config.token, proposed: true, checks })
+        }
+
+        const proposed = results.filter((result) => result.proposed).length
+        log.info(`Proposed ${proposed} of ${unsupported.length} unsupported tokens of ${configFile}`)
+
+        return results
+    } catch (error) {
+        log.error('Onboard tokens failed', error)
+        throw error
+    }
+}
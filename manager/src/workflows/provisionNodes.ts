@@ -0,0 +1,120 @@
+import type { Address } from 'viem'
+import { getAddress } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { getProvisioningOperators } from '../utils/config'
+import { findConflictingProposals, inspectPendingProposals } from '../utils/proposals'
+import { getStakerNodes } from '../utils/nodes'
+import { createStakerNodes } from '../tasks/createStakerNodes'
+import { delegateNodes } from '../tasks/delegateNodes'
+import { type NodeDelegation, planProvisioning } from '../policies/provisioning'
+import { alertWorkflowSkipped } from '../utils/alerts'
+import { createLogger } from '../utils/logger'
+import { step } from '../utils/run'
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for keeping one delegated staker node per desired operator
+ * Operators: Configured per LAT in `provisioning` config or the LAT registry
+ * Proposes `delegateNodes` for undelegated nodes and `createStakerNodes` for the rest, within `maxNodes`
+ * New nodes are delegated by a later run, once their creation proposal is executed
+ *
+ * @param deployment
+ * @param operators
+ * @returns
+ */
+export async function provisionNodes(
+    deployment: Deployment,
+    operators: string[] = getProvisioningOperators(deployment.liquidToken)
+) {
+    try {
+        if (operators.length === 0) {
+            log.info('No operators set for provisioning. Skipping workflow...')
+            return
+        }
+
+        // Pending creations and delegations are counted as done, so they are not proposed twice
+        const { undelegations, pendingCreates, pendingDelegations } = await step(
+            'Check pending proposals',
+            async () => {
+                const queue = await inspectPendingProposals(deployment, 'admin')
+
+                const calls = findConflictingProposals(
+                    deployment,
+                    [queue],
+                    ['createStakerNode', 'delegateNodes']
+                ).flatMap((proposal) => proposal.calls)
+                const pendingDelegations: NodeDelegation[] = calls
+                    .filter((call) => call.functionName === 'delegateNodes')
+                    .flatMap((call) => {
+                        const [nodeIds, delegationOperators] = call.args as [bigint[], Address[]]
+                        return nodeIds.map((nodeId, index) => ({
+                            nodeId: Number(nodeId),
+                            operator: delegationOperators[index]
+                        }))
+                    })
+
+                return {
+                    undelegations: findConflictingProposals(deployment, [queue], ['undelegateNodes']),
+                    pendingCreates: calls.filter((call) => call.functionName === 'createStakerNode').length,
+                    pendingDelegations
+                }
+            }
+        )
+
+        if (undelegations.length > 0) {
+            const { nonce, title } = undelegations[0]
+            const reason = `Pending undelegation at admin nonce ${nonce}: ${title}`
+            log.warn(`${reason}. Skipping workflow...`)
+            await alertWorkflowSkipped(reason)
+            return
+        }
+
+        const { nodes, maxNodes } = await step('Fetch staker nodes', () => getStakerNodes(deployment))
+
+        const plan = planProvisioning({
+            operators: operators.map((operator) => getAddress(operator)),
+            nodes,
+            maxNodes,
+            pendingCreates,
+            pendingDelegations
+        })
+
+        log.info(
+            `${nodes.length} of ${maxNodes} nodes, ${pendingCreates} pending creation, ${pendingDelegations.length} pending delegation`
+        )
+
+        if (plan.unserved.length > 0) {
+            log.warn(`Max nodes reached. No node for operators: ${plan.unserved.join(', ')}`)
+        }
+
+        if (plan.delegations.length > 0) {
+            await step('Propose delegations', () =>
+                delegateNodes(
+                    deployment,
+                    plan.delegations.map(({ nodeId }) => nodeId.toString()),
+                    plan.delegations.map(({ operator }) => operator),
+                    [],
+                    []
+                )
+            )
+        }
+
+        if (plan.create > 0) {
+            await step('Propose node creation', () => createStakerNodes(deployment, plan.create))
+        }
+
+        if (plan.waiting.length > 0) {
+            log.info(`Waiting on node creation to delegate operators: ${plan.waiting.join(', ')}`)
+        }
+
+        if (plan.delegations.length === 0 && plan.create === 0) {
+            log.info('Nodes match the desired operators. Nothing to propose')
+        }
+
+        log.info('Provision nodes complete')
+    } catch (error) {
+        log.error('Provision nodes failed', error)
+        throw error
+    }
+}
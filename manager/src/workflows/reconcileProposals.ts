@@ -0,0 +1,26 @@
+import type { Deployment } from '../utils/deployment'
+import { reconcileLedger } from '../utils/ledger'
+import { createLogger } from '../utils/logger'
+import { step } from '../utils/run'
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for moving the proposals in the ledger to their current status
+ * Statuses are read from the transaction service and the Safes' on-chain nonces
+ *
+ * @param deployment
+ * @returns
+ */
+export async function reconcileProposals(deployment: Deployment) {
+    try {
+        const updated = await step('Reconcile ledger', () => reconcileLedger(deployment))
+
+        log.info(`Reconcile proposals complete, ${updated.length} proposals updated`)
+
+        return updated
+    } catch (error) {
+        log.error('Reconcile proposals failed', error)
+        throw error
+    }
+}
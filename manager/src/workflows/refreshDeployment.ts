@@ -1,17 +1,18 @@
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { refreshDeploymentAddresses } from '../utils/forge'
+import { getOutputFile } from '../utils/forge'
+import { type Deployment, type DeploymentSource, loadDeployment, parseDeployment } from '../utils/deployment'
+import { createLogger } from '../utils/logger'
+import { tracedFetch } from '../utils/http'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+const log = createLogger('Manager')
+
 const LAT_DEPLOYMENTS_REPO = process.env.LAT_DEPLOYMENTS_REPO
 const GITHUB_ACCESS_TOKEN = process.env.GITHUB_ACCESS_TOKEN
-const DEPLOYMENT_DATA_PATH = path.resolve(
-    __dirname,
-    `../../../script/outputs/${process.env.NETWORK}/deployment_data.json`
-)
 
 interface VersionWithTimestamp {
     timestamp: number
@@ -23,23 +24,27 @@ interface VersionWithTimestamp {
  * Fetches the latest `info.json` from the Github deployments repo and updates
  * the existing `script/outputs/<chain>/deployment_data.json`
  * Note: This process is skipped on local deployments
+ * The deployment data is validated after it is written, so a malformed file fails the refresh
+ * Defaults to `LAT_DEPLOYMENTS_REPO` and the output file of the deployment set in env
  *
+ * @param source
  * @returns
  */
-export async function refreshDeployment() {
+export async function refreshDeployment(
+    source: DeploymentSource = { repo: LAT_DEPLOYMENTS_REPO, outputFile: getOutputFile() }
+): Promise<Deployment> {
     try {
         // Skip for local deployments
         if (!process.env.DEPLOYMENT || process.env.DEPLOYMENT === 'local') {
-            console.log('[Info] Skipping deployment data fetch from GH. Make sure local output file is updated.')
-            await refreshDeploymentAddresses()
-            return
+            log.info('Skipping deployment data fetch from GH. Make sure local output file is updated.')
+            return await loadDeployment(source.outputFile)
         }
 
-        if (!LAT_DEPLOYMENTS_REPO || !GITHUB_ACCESS_TOKEN) {
+        if (!source.repo || !GITHUB_ACCESS_TOKEN) {
             throw new Error('Env vars not set correctly.')
         }
 
-        const [owner, repo, ...pathParts] = LAT_DEPLOYMENTS_REPO.split('/')
+        const [owner, repo, ...pathParts] = source.repo.split('/')
 
         if (!owner || !repo) {
             throw new Error('Invalid LAT_DEPLOYMENT_REPO format.')
@@ -50,7 +55,7 @@ export async function refreshDeployment() {
         headers.append('Accept', 'application/vnd.github.v3+json')
         const apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${pathParts.join('/')}`
 
-        const response = await fetch(apiUrl, { headers })
+        const response = await tracedFetch(apiUrl, { headers })
         if (!response.ok) {
             throw new Error(`${response.status}: ${await response.text()}`)
         }
@@ -70,7 +75,7 @@ export async function refreshDeployment() {
                     '/'
                 )}/${dir.name}/info.json`
 
-                const outputResponse = await fetch(outputFileUrl, { headers })
+                const outputResponse = await tracedFetch(outputFileUrl, { headers })
                 if (!outputResponse.ok) {
                     continue
                 }
@@ -86,12 +91,12 @@ export async function refreshDeployment() {
                     })
                 }
             } catch (error) {
-                console.log(`Error processing info.json for ${dir.name}:`, error)
+                log.warn(`Error processing info.json for ${dir.name}: ${error.message}`)
             }
         }
 
         if (versionsWithTimestamps.length === 0) {
-            throw new Error(`No valid deployment data found in any version directory in ${LAT_DEPLOYMENTS_REPO}`)
+            throw new Error(`No valid deployment data found in any version directory in ${source.repo}`)
         }
 
         // Get the latest deployment based on timestamp
@@ -99,12 +104,16 @@ export async function refreshDeployment() {
         const latestVersion = versionsWithTimestamps[0]
         const deploymentData = latestVersion.data
 
-        await fs.mkdir(path.dirname(DEPLOYMENT_DATA_PATH), { recursive: true })
-        await fs.writeFile(DEPLOYMENT_DATA_PATH, JSON.stringify(deploymentData, null, 2))
+        // Validate before writing, so a malformed upstream file never replaces the last good deployment
+        const deployment = parseDeployment(deploymentData, source.outputFile)
+
+        const deploymentDataPath = path.join(__dirname, '../../../script/outputs', source.outputFile)
+        await fs.mkdir(path.dirname(deploymentDataPath), { recursive: true })
+        await fs.writeFile(deploymentDataPath, JSON.stringify(deploymentData, null, 2))
 
-        await refreshDeploymentAddresses()
+        return deployment
     } catch (error) {
-        console.log('[Manager] Error: ', error.message)
+        log.error('Refresh deployment failed', error)
         throw error
     }
 }
@@ -1,72 +1,95 @@
-import { getPendingProposals, isContractOurs, LIQUID_TOKEN_ADDRESS } from '../utils/forge'
-import { type NodeAllocation, stakeAssetsToNodes } from '../tasks/stakeAssetsToNodes'
-
-interface LATResponse {
-    address: string
-    assets: { asset: string; balance: string; queuedBalance: string }[]
-}
-
-interface TokensResponse {
-    data: {
-        address: string
-        strategyAddress: string
-        decimals: number
-        pricePerUnit: string
-    }[]
-}
-
-interface StakerNodesResponse {
-    stakerNodes: {
-        address: string
-        nodeId: number
-        operatorDelegation: string
-        assets: {
-            asset: string
-        }[]
-    }[]
-}
-
-const LAT_API_URL = process.env.LAT_API_URL
-const EE_API_URL = process.env.EE_API_URL
-const EE_API_TOKEN = process.env.EE_API_TOKEN
+import { parseAbi } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { findConflictingProposals, inspectPendingProposals } from '../utils/proposals'
+import { getAllocationPolicyConfig, getDataSourceType, getReservePolicyConfig } from '../utils/config'
+import { type DataSourceType, createDataSource } from '../utils/dataSource'
+import { getNodeBalances } from '../utils/nodes'
+import { getOperatorStrategies } from '../utils/operatorStrategies'
+import { stakeAssetsToNodes } from '../tasks/stakeAssetsToNodes'
+import {
+    type AllocationPolicyConfig,
+    type StakingAmount,
+    createAllocationPolicy,
+    getEligibleNodes
+} from '../policies/allocation'
+import { type ReservePolicyConfig, applyReservePolicy, requiresTotalAssets } from '../policies/reserve'
+import { alertWorkflowSkipped } from '../utils/alerts'
+import { createLogger } from '../utils/logger'
+import { recordAssetBalances } from '../utils/metrics'
+import { recordAllocations, recordReserves, step } from '../utils/run'
+import { getViemClient } from '../utils/viemClient'
+
+const LIQUID_TOKEN_ABI = parseAbi(['function totalAssets() view returns (uint256)'])
+
+const log = createLogger('Manager')
+
+// Pending calls that change the assets or nodes this workflow stakes with
+const CONFLICTING_FUNCTIONS = [
+    'stakeAssetsToNode',
+    'stakeAssetsToNodes',
+    'delegateNodes',
+    'undelegateNodes',
+    'addToken',
+    'removeToken',
+    'pause'
+]
 
 /**
  * Workflow for staking unstaked assets in the `LiquidToken` contract across nodes
- * Policy: Split every asset across all Operators that restake it
+ * Policy: Configured per LAT in `allocation` config or the LAT registry, defaults to splitting every asset across all Operators that restake it
+ * Reserve: Configured per LAT in `reserve` config or the LAT registry, defaults to holding back 0.5% of the LAT's total assets
+ * Data source: Configured per LAT in `dataSource` config or the LAT registry, defaults to the LAT API
+ * Operator strategies: Read on-chain from EigenLayer, optionally cross-checked against the EE API with `operatorStrategies.crossCheck`
  *
+ * @param deployment
+ * @param allocation
+ * @param dataSourceType
+ * @param reserve
  * @returns
  */
-export async function stakeUnstakedAssets() {
+export async function stakeUnstakedAssets(
+    deployment: Deployment,
+    allocation: AllocationPolicyConfig = getAllocationPolicyConfig(deployment.liquidToken),
+    dataSourceType: DataSourceType = getDataSourceType(deployment.liquidToken),
+    reserve: ReservePolicyConfig = getReservePolicyConfig(deployment.liquidToken)
+) {
     try {
-        // Check if the multisig has any pending proposals for this LAT
-        const pendingProposals = await getPendingProposals()
-        for (const proposal of pendingProposals) {
-            if (isContractOurs(proposal.to.toLowerCase())) {
-                throw new Error(
-                    `Cannot execute workflow due to existing pending tx for this LAT at nonce ${proposal.nonce}`
-                )
-            }
-        }
-
-        // LAT API: Fetch unstaked assets and amounts
-        const latResponse = await fetch(`${LAT_API_URL}/lat/${LIQUID_TOKEN_ADDRESS}`)
-
-        if (!latResponse.ok) {
-            throw new Error(`Failed to fetch LAT data: ${latResponse.status} ${latResponse.statusText}`)
+        const dataSource = createDataSource(dataSourceType, deployment)
+
+        // Check if the multisigs have any pending proposals that change what or where this LAT stakes
+        const conflicts = await step('Check pending proposals', async () => {
+            const queues = await Promise.all([
+                inspectPendingProposals(deployment, 'admin'),
+                inspectPendingProposals(deployment, 'pauser')
+            ])
+            return findConflictingProposals(deployment, queues, CONFLICTING_FUNCTIONS)
+        })
+
+        if (conflicts.length > 0) {
+            const { multisig, nonce, title } = conflicts[0]
+            const reason = `Pending tx for this LAT at ${multisig} nonce ${nonce}: ${title}`
+            log.warn(`${reason}. Skipping workflow...`)
+            await alertWorkflowSkipped(reason)
+            return []
         }
 
-        const latData = (await latResponse.json()) as LATResponse
-        const unstakedAssets = latData.assets
-
-        // LAT API: Fetch nodes and their delegations
-        const nodesResponse = await fetch(`${LAT_API_URL}/lat/${LIQUID_TOKEN_ADDRESS}/staker-nodes`)
+        log.info(`Reading LAT data from ${dataSource.name} source`)
 
-        if (!nodesResponse.ok) {
-            throw new Error(`Failed to fetch staker nodes: ${nodesResponse.status} ${nodesResponse.statusText}`)
-        }
+        // Fetch unstaked assets and amounts
+        const unstakedAssets = await step('Fetch LAT data', () => dataSource.getAssetBalances())
+        recordAssetBalances(
+            deployment.liquidToken,
+            'idle',
+            new Map(unstakedAssets.map((asset) => [asset.asset, BigInt(asset.balance)]))
+        )
+        recordAssetBalances(
+            deployment.liquidToken,
+            'queued',
+            new Map(unstakedAssets.map((asset) => [asset.asset, BigInt(asset.queuedBalance)]))
+        )
 
-        const nodesData = (await nodesResponse.json()) as StakerNodesResponse
-        const nodes = nodesData.stakerNodes
+        // Fetch nodes and their delegations
+        const nodes = await step('Fetch staker nodes', () => dataSource.getStakerNodes())
 
         // Filter out nodes that are not delegated
         const delegatedNodes = nodes.filter(
@@ -74,113 +97,121 @@ export async function stakeUnstakedAssets() {
         )
 
         if (delegatedNodes.length === 0) {
-            console.log('[Manager][Warning] No delegated nodes found. Skipping workflow...')
+            log.warn('No delegated nodes found. Skipping workflow...')
+            await alertWorkflowSkipped('No delegated nodes found')
             return []
         }
 
-        // LAT API: Fetch token data
-        const tokensResponse = await fetch(`${LAT_API_URL}/lat/${LIQUID_TOKEN_ADDRESS}/tokens`)
-
-        if (!tokensResponse.ok) {
-            throw new Error(`Failed to fetch token data: ${tokensResponse.status} ${tokensResponse.statusText}`)
-        }
+        // Fetch token data
+        const tokens = await step('Fetch tokens', () => dataSource.getTokens())
+        const tokenInfoMap = new Map(tokens.map((token) => [token.address.toLowerCase(), token]))
+
+        // Fetch strategies restaked by each Operator
+        const operatorAddresses = [...new Set(delegatedNodes.map((node) => node.operatorDelegation.toLowerCase()))]
+        const operatorStrategies = await step('Fetch operator strategies', () =>
+            getOperatorStrategies(
+                deployment,
+                operatorAddresses,
+                tokens.map((token) => token.strategyAddress)
+            )
+        )
 
-        const tokensData = (await tokensResponse.json()) as TokensResponse
-        const tokenInfoMap = new Map(tokensData.data.map((token) => [token.address.toLowerCase(), token]))
-
-        // EE API: Fetch strategies restaked by each Operator
-        const operatorAddresses = delegatedNodes.map((node) => node.operatorDelegation.toLowerCase())
-        const operatorStrategiesData = await Promise.all(
-            operatorAddresses.map(async (operatorAddress) => {
-                const operatorResponse = await fetch(`${EE_API_URL}/operators/${operatorAddress}`, {
-                    headers: {
-                        'X-API-Token': `${process.env.EE_API_TOKEN}`
-                    }
-                })
-
-                if (!operatorResponse.ok) {
-                    throw new Error(
-                        `Failed to fetch operator ${operatorAddress}: ${operatorResponse.status} ${operatorResponse.statusText}`
-                    )
-                }
-
-                const data = await operatorResponse.json()
-                const strategyAddresses = data.shares.map((share) => share.strategyAddress.toLowerCase())
-                return {
-                    operator: operatorAddress as string,
-                    strategies: strategyAddresses as string[]
-                }
-            })
+        // Get token info to account for decimals
+        const pricedAssets = unstakedAssets.filter((asset) => {
+            if (tokenInfoMap.has(asset.asset.toLowerCase())) return true
+
+            log.warn(`Token info for ${asset.asset.toLowerCase()} not found. Skipping its allocation...`)
+            return false
+        })
+
+        // Hold back the LAT's reserve and compute the amount of each asset to stake
+        const totalAssets = requiresTotalAssets(reserve)
+            ? await step('Fetch total assets', () =>
+                  getViemClient().readContract({
+                      address: deployment.liquidToken,
+                      abi: LIQUID_TOKEN_ABI,
+                      functionName: 'totalAssets'
+                  })
+              )
+            : undefined
+
+        const reserves = applyReservePolicy(
+            {
+                balances: pricedAssets.map((asset) => ({ asset: asset.asset, balance: BigInt(asset.balance) })),
+                tokenInfo: tokenInfoMap,
+                totalAssets
+            },
+            reserve
         )
-        const operatorStrategies = new Map(operatorStrategiesData.map((item) => [item.operator, item.strategies]))
+        recordReserves(reserves)
 
-        const allocations: NodeAllocation[] = []
+        const stakingAmounts: StakingAmount[] = []
 
-        for (const asset of unstakedAssets) {
-            // Get token info to account for decimals
-            const tokenInfo = tokenInfoMap.get(asset.asset.toLowerCase())
+        for (const { asset, stakeAmount, heldBack } of reserves) {
+            const tokenInfo = tokenInfoMap.get(asset.toLowerCase())
+            const stakingAmount = BigInt(stakeAmount)
 
-            if (!tokenInfo) {
-                console.log(
-                    `[Manager][Warning] Token info for ${asset.asset.toLowerCase()} not found. Skipping its allocation...`
+            if (heldBack.length > 0) {
+                log.info(
+                    `Holding back ${heldBack.map(({ rule, amount }) => `${amount} by ${rule}`).join(', ')} of asset ${asset}`
                 )
-                continue
             }
 
-            const balance = BigInt(asset.balance)
-            const stakingAmount = (balance * BigInt(995)) / BigInt(1000) // allow 0.5% margin of error
-
             if (stakingAmount <= 0) {
-                console.log(
-                    `[Manager][Warning] Staking amount for ${asset.asset.toLowerCase()} is invalid, computed as ${stakingAmount} . Skipping its allocation...`
+                log.info(
+                    `Nothing to stake of asset ${asset.toLowerCase()} after its reserve. Skipping its allocation...`
                 )
                 continue
             }
 
-            // Filter for nodes whose Operators restake the asset
-            const assetStrategyAddress = tokenInfo.strategyAddress.toLowerCase()
-            const eligibleNodes = delegatedNodes.filter((node) =>
-                operatorStrategies.get(node.operatorDelegation.toLowerCase())?.includes(assetStrategyAddress)
-            )
-
             // Skip if no operators restake this strategy
-            if (eligibleNodes.length === 0) {
-                console.log(`[Manager][Warning] No operators restake asset ${asset.asset}. Skipping its allocation...`)
+            if (
+                !tokenInfo ||
+                getEligibleNodes(delegatedNodes, operatorStrategies, tokenInfo.strategyAddress).length === 0
+            ) {
+                log.warn(`No operators restake asset ${asset}. Skipping its allocation...`)
                 continue
             }
 
-            // Calculate even distribution across all nodes
-            const amountPerNode = stakingAmount / BigInt(eligibleNodes.length)
-
-            // Create allocations for all nodes
-            for (const node of eligibleNodes) {
-                const existingAllocation = allocations.find((alloc) => alloc.nodeId === node.nodeId.toString())
-
-                if (existingAllocation) {
-                    existingAllocation.assets.push(asset.asset)
-                    existingAllocation.amounts.push(amountPerNode.toString())
-                } else {
-                    allocations.push({
-                        nodeId: node.nodeId.toString(),
-                        assets: [asset.asset],
-                        amounts: [amountPerNode.toString()]
-                    })
-                }
-            }
+            stakingAmounts.push({ asset, amount: stakingAmount })
         }
 
+        // Distribute staking amounts across nodes with the LAT's allocation policy
+        const policy = createAllocationPolicy(allocation)
+        const nodeBalances = policy.requiresNodeBalances
+            ? await step('Fetch node balances', () =>
+                  getNodeBalances(
+                      deployment,
+                      delegatedNodes.map((node) => node.nodeId),
+                      stakingAmounts.map(({ asset }) => asset)
+                  )
+              )
+            : undefined
+
+        log.info(`Allocating with ${policy.name} policy`)
+
+        const allocations = policy.allocate({
+            stakingAmounts,
+            nodes: delegatedNodes,
+            operatorStrategies,
+            tokenInfo: tokenInfoMap,
+            nodeBalances
+        })
+        recordAllocations(allocations)
+
         // If no allocations, exit early
         if (allocations.length === 0) {
-            console.log('[Manager][Warning] No allocations computed. Skipping workflow...')
+            log.warn('No allocations computed. Skipping workflow...')
+            await alertWorkflowSkipped('No allocations computed')
             return []
         }
 
         // Create proposals to stake assets to nodes
-        await stakeAssetsToNodes(allocations)
+        await step('Propose stakes', () => stakeAssetsToNodes(deployment, allocations))
 
-        console.log('[Manager] Stake unstaked assets complete')
+        log.info('Stake unstaked assets complete')
     } catch (error) {
-        console.log('[Manager] Error: ', error.message)
+        log.error('Stake unstaked assets failed', error)
         throw error
     }
 }
@@ -0,0 +1,229 @@
+import { type Hex, erc20Abi } from 'viem'
+import { encodeFunctionData, parseAbi } from 'viem/utils'
+import type { Deployment } from '../utils/deployment'
+import { isDryRun } from '../utils/dryRun'
+import { LAT_ERRORS } from '../utils/abis'
+import { getRevertReason, isRevert } from '../utils/simulate'
+import { getViemClient } from '../utils/viemClient'
+import { getHotWalletAddress, sendHotWalletTransaction } from '../utils/hotWallet'
+import { createLogger } from '../utils/logger'
+import { recordPriceState } from '../utils/metrics'
+import { fetchOffChainRate } from '../utils/coinMarketCap'
+import { step } from '../utils/run'
+
+const ORACLE_ABI = [
+    ...LAT_ERRORS,
+    ...parseAbi([
+        'function arePricesStale() view returns (bool)',
+        'function lastPriceUpdate() view returns (uint256)',
+        'function getRate(address token) view returns (uint256)',
+        'function updateAllPricesIfNeeded() returns (bool)',
+        'function batchUpdateRates(address[] tokens, uint256[] newRates)',
+        'function _getTokenPrice_getter(address token) returns (uint256 price, bool success)'
+    ])
+]
+
+const MANAGER_ABI = parseAbi(['function getSupportedTokens() view returns (address[])'])
+
+const log = createLogger('Manager')
+const dryRunLog = createLogger('DryRun')
+
+/**
+ * Workflow for keeping `TokenRegistryOracle` prices fresh, sent from the price updater hot wallet or Defender Relayer
+ * Calls `updateAllPricesIfNeeded` when prices are stale. If the on-chain sources fail, rates are
+ * computed off-chain and sent with `batchUpdateRates` instead
+ *
+ * @param deployment
+ * @returns
+ */
+export async function updatePrices(deployment: Deployment) {
+    try {
+        const viemClient = getViemClient()
+        const account = await getHotWalletAddress()
+        const oracleAddress = deployment.tokenRegistryOracle
+
+        if (account !== deployment.priceUpdater) {
+            log.warn(`Price updater ${account} does not match deployment price updater ${deployment.priceUpdater}`)
+        }
+
+        // Check if prices need an update
+        const [stale, lastPriceUpdate] = await Promise.all([
+            viemClient.readContract({ address: oracleAddress, abi: ORACLE_ABI, functionName: 'arePricesStale' }),
+            viemClient.readContract({ address: oracleAddress, abi: ORACLE_ABI, functionName: 'lastPriceUpdate' })
+        ])
+        const lastUpdated = new Date(Number(lastPriceUpdate) * 1000).toISOString()
+        recordPriceState(deployment.liquidToken, stale, lastPriceUpdate)
+
+        if (!stale) {
+            log.info(`Prices are fresh, last updated at ${lastUpdated}. Skipping workflow...`)
+            return
+        }
+
+        log.info(`Prices are stale, last updated at ${lastUpdated}`)
+
+        const tokens = await viemClient.readContract({
+            address: deployment.liquidTokenManager,
+            abi: MANAGER_ABI,
+            functionName: 'getSupportedTokens'
+        })
+
+        // Try the on-chain sources first
+        try {
+            await viemClient.simulateContract({
+                account,
+                address: oracleAddress,
+                abi: ORACLE_ABI,
+                functionName: 'updateAllPricesIfNeeded'
+            })
+
+            if (isDryRun()) {
+                dryRunLog.info('Would send updateAllPricesIfNeeded() from the price updater')
+                return
+            }
+
+            await step('Send updateAllPricesIfNeeded', () =>
+                confirmTransaction({
+                    to: oracleAddress,
+                    data: encodeFunctionData({ abi: ORACLE_ABI, functionName: 'updateAllPricesIfNeeded' })
+                })
+            )
+
+            const newLastPriceUpdate = await viemClient.readContract({
+                address: oracleAddress,
+                abi: ORACLE_ABI,
+                functionName: 'lastPriceUpdate'
+            })
+            if (newLastPriceUpdate <= lastPriceUpdate) throw new Error('lastPriceUpdate did not advance')
+
+            await logRates(oracleAddress, tokens)
+
+            log.info('Update prices complete')
+            return
+        } catch (error) {
+            if (!isRevert(error)) throw error
+
+            log.warn(`updateAllPricesIfNeeded reverted: ${getRevertReason(error)}`)
+        }
+
+        // Fall back to rates computed off-chain
+        log.info('Computing rates off-chain...')
+
+        const rates = await step('Compute off-chain rates', async () => {
+            const rates: bigint[] = []
+            for (const token of tokens) {
+                rates.push(await getRate(oracleAddress, token, account))
+            }
+            return rates
+        })
+
+        await viemClient.simulateContract({
+            account,
+            address: oracleAddress,
+            abi: ORACLE_ABI,
+            functionName: 'batchUpdateRates',
+            args: [tokens, rates]
+        })
+
+        if (isDryRun()) {
+            dryRunLog.info('Would send batchUpdateRates() from the price updater')
+            for (const [index, token] of tokens.entries()) {
+                dryRunLog.info(`  ${token}: ${rates[index]}`)
+            }
+            return
+        }
+
+        await step('Send batchUpdateRates', () =>
+            confirmTransaction({
+                to: oracleAddress,
+                data: encodeFunctionData({ abi: ORACLE_ABI, functionName: 'batchUpdateRates', args: [tokens, rates] })
+            })
+        )
+
+        // Confirm every rate landed on-chain
+        const newRates = await logRates(oracleAddress, tokens)
+        for (const [index, token] of tokens.entries()) {
+            if (newRates[index] !== rates[index]) {
+                throw new Error(`Rate for ${token} is ${newRates[index]}, expected ${rates[index]}`)
+            }
+        }
+
+        log.info('Update prices complete')
+    } catch (error) {
+        log.error('Update prices failed', error)
+        throw error
+    }
+}
+
+// --- Helper functions ---
+
+/**
+ * Returns the rate of a token from its on-chain source, or from CoinMarketCap if that fails
+ *
+ * @param oracleAddress
+ * @param token
+ * @param account
+ * @returns
+ */
+async function getRate(oracleAddress: Hex, token: Hex, account: Hex): Promise<bigint> {
+    const viemClient = getViemClient()
+
+    try {
+        const {
+            result: [price, success]
+        } = await viemClient.simulateContract({
+            account,
+            address: oracleAddress,
+            abi: ORACLE_ABI,
+            functionName: '_getTokenPrice_getter',
+            args: [token]
+        })
+
+        if (success && price > 0n) return price
+    } catch {}
+
+    const symbol = await viemClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' })
+    const rate = await fetchOffChainRate(symbol)
+
+    log.info(`Using off-chain rate for ${symbol} (${token}): ${rate}`)
+
+    return rate
+}
+
+/**
+ * Sends a price update from the hot wallet, waits for its receipt and throws if it reverted
+ *
+ * @param call
+ */
+async function confirmTransaction(call: { to: Hex; data: Hex }) {
+    const receipt = await sendHotWalletTransaction(call)
+    if (receipt.status !== 'success') throw new Error(`Price update tx ${receipt.transactionHash} reverted`)
+
+    log.info(`Price update tx ${receipt.transactionHash} confirmed in block ${receipt.blockNumber}`)
+}
+
+/**
+ * Reads and logs the current rate of every token
+ *
+ * @param oracleAddress
+ * @param tokens
+ * @returns
+ */
+async function logRates(oracleAddress: Hex, tokens: readonly Hex[]): Promise<bigint[]> {
+    const viemClient = getViemClient()
+    const rates = await Promise.all(
+        tokens.map((token) =>
+            viemClient.readContract({
+                address: oracleAddress,
+                abi: ORACLE_ABI,
+                functionName: 'getRate',
+                args: [token]
+            })
+        )
+    )
+
+    for (const [index, token] of tokens.entries()) {
+        log.info(`Rate for ${token}: ${rates[index]}`)
+    }
+
+    return rates
+}
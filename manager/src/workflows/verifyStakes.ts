@@ -0,0 +1,87 @@
+import type { Hex } from 'viem'
+import type { NodeAllocation } from '../tasks/stakeAssetsToNodes'
+import type { Deployment } from '../utils/deployment'
+import { type LedgerEntry, loadLedger, reconcileLedger, recordLedgerVerification } from '../utils/ledger'
+import { type StakeVerification, verifyStakingProposal } from '../utils/verification'
+import { getViemClient } from '../utils/viemClient'
+import { sendAlert } from '../utils/alerts'
+import { createLogger } from '../utils/logger'
+import { step } from '../utils/run'
+
+const log = createLogger('Manager')
+
+/**
+ * Workflow for verifying staking proposals once the admin multisig executes them
+ * Reconciles the ledger first, then checks every executed staking proposal that is not verified yet against
+ * the allocations it was planned with. Shortfalls are recorded in the proposal's ledger entry and alerted
+ *
+ * @param deployment
+ * @returns
+ */
+export async function verifyStakes(deployment: Deployment) {
+    try {
+        await step('Reconcile ledger', () => reconcileLedger(deployment))
+
+        const entries = [...(await loadLedger()).values()].filter(
+            (entry): entry is LedgerEntry & { plan: NodeAllocation[] } =>
+                !!entry.plan &&
+                !entry.verification &&
+                entry.status === 'executed' &&
+                entry.safeAddress.toLowerCase() === deployment.admin.toLowerCase()
+        )
+
+        if (entries.length === 0) {
+            log.info('No executed staking proposals to verify. Skipping workflow...')
+            return []
+        }
+
+        const verifications: StakeVerification[] = []
+
+        for (const entry of entries) {
+            if (!entry.executionTxHash) {
+                log.warn(`Executed proposal ${entry.safeTxHash} has no execution tx hash. Skipping its verification...`)
+                continue
+            }
+
+            const verification = await step(`Verify proposal ${entry.nonce}`, async () => {
+                const receipt = await getViemClient().getTransactionReceipt({ hash: entry.executionTxHash as Hex })
+                return verifyStakingProposal(deployment, entry, receipt.blockNumber)
+            })
+            await recordLedgerVerification(entry.safeTxHash, verification)
+            verifications.push(verification)
+
+            const origin = `${entry.title} (admin #${entry.nonce}, run ${entry.runId ?? 'unknown'})`
+
+            if (verification.passed) {
+                log.info(`${origin}: staked as planned`)
+                continue
+            }
+
+            const issues = [
+                ...(verification.calldataMatchesPlan ? [] : ['executed calldata differs from the plan']),
+                ...verification.checks
+                    .filter((check) => check.shortfall !== '0')
+                    .map(
+                        (check) =>
+                            `${check.nodeId === null ? 'LiquidToken' : `node ${check.nodeId}`} ${check.asset} short by ${check.shortfall} (expected ${check.expected}, got ${check.actual})`
+                    )
+            ]
+
+            log.warn(`${origin}: ${issues.join('; ')}`, { safeTxHash: entry.safeTxHash })
+            await sendAlert({
+                type: 'stakeShortfall',
+                key: entry.safeTxHash,
+                severity: 'warning',
+                title: 'Staking proposal did not execute as planned',
+                message: `${origin}: ${issues.join('; ')}`
+            })
+        }
+
+        log.info('Verify stakes complete')
+
+        return verifications
+    } catch (error) {
+        log.error('Verify stakes failed', error)
+        throw error
+    }
+}